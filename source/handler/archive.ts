@@ -0,0 +1,719 @@
+// source/handler/archive.ts
+// Download folders as ZIP or gzipped tar archives, with the `archive` query
+// parameter, and chosen files and folders as one archive, with the
+// `/__archive` endpoint. Archives are written while they are sent, without
+// temporary files.
+
+import path from 'node:path';
+import { constants, createReadStream } from 'node:fs';
+import { access, readdir, realpath, stat } from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import contentDisposition from 'content-disposition';
+import { logger } from '../utilities/logger.js';
+import { canBeListed, getExcluded, isListable } from './matchers.js';
+import { resolveResource } from './resources.js';
+import { readBody, sendJSON } from './response.js';
+import { isStatePath } from './state.js';
+import type { Stats } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ParsedUrlQuery } from 'node:querystring';
+import type { Resource, ResourceConfig } from './resources.js';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+// A file or folder in an archive.
+export interface ArchiveEntry {
+  // The path of the entry within the archive, with forward slashes, and a
+  // trailing one for folders.
+  name: string;
+  absolutePath: string;
+  stats: Stats;
+}
+
+export interface ArchiveConfig extends ResourceConfig {
+  directoryListing?: boolean | string[];
+}
+
+export const archivePath = '/__archive';
+
+const archiveFormats: ArchiveFormat[] = ['zip', 'tar.gz'];
+
+// The largest request body accepted by the endpoint, and the most files and
+// folders that can be chosen at once.
+const maxBodySize = 256 * 1024;
+const maxSelected = 1000;
+
+const contentTypes: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  'tar.gz': 'application/gzip',
+};
+
+// The largest value that fits the 32-bit fields of a ZIP archive. Larger ones
+// are stored in ZIP64 fields instead.
+const zip32Limit = 0xff_ff_ff_ff;
+// The most entries the end of a ZIP archive can count without ZIP64.
+const zip16Limit = 0xff_ff;
+// The largest size that fits the header of an entry in a tar archive.
+const tarSizeLimit = 0o77_777_777_777;
+
+/**
+ * Reads which archive a folder should be downloaded as from the query of the
+ * request.
+ *
+ * @param query - The parsed query of the request.
+ * @returns The format of the archive, or `null` if none was asked for or the
+ *          format is not supported.
+ */
+export const getArchiveFormat = (
+  query: ParsedUrlQuery,
+): ArchiveFormat | null => {
+  const format = query.archive as ArchiveFormat;
+  return archiveFormats.includes(format) ? format : null;
+};
+
+/**
+ * Checks whether a folder may be added to an archive, which is only the case
+ * if its listing may be shown.
+ */
+const isArchivable = (
+  current: string,
+  absolutePath: string,
+  config: ArchiveConfig,
+): boolean => {
+  const relativePath = path
+    .relative(current, absolutePath)
+    .split(path.sep)
+    .filter(Boolean)
+    .join('/');
+  return isListable(
+    relativePath ? `/${relativePath}/` : '/',
+    config.directoryListing,
+  );
+};
+
+/**
+ * Walks the given folder depth first, and yields it along with every folder
+ * and regular file in it. Unlisted files and the folders inside them are left out,
+ * and so are folders whose listing may not be shown.
+ * Symlinks are left out as well, unless the `symlinks` option is enabled, in
+ * which case they are followed, but every folder is only added once so links
+ * back up the tree cannot make the archive endless.
+ */
+async function* collectEntries(
+  current: string,
+  folder: ArchiveEntry,
+  config: ArchiveConfig,
+  seen = new Set<string>(),
+): AsyncGenerator<ArchiveEntry> {
+  yield folder;
+  seen.add(await realpath(folder.absolutePath));
+
+  const excluded = getExcluded(config.unlisted);
+  const dirents = await readdir(folder.absolutePath, {
+    withFileTypes: true,
+  }).catch(() => []);
+  dirents.sort((a, b) => (a.name < b.name ? -1 : 1));
+
+  for (const dirent of dirents) {
+    const absolutePath = path.join(folder.absolutePath, dirent.name);
+    if (
+      !canBeListed(excluded, dirent.name) ||
+      isStatePath(current, absolutePath) ||
+      (dirent.isSymbolicLink() && !config.symlinks)
+    )
+      continue;
+
+    // Files that disappear or cannot be read are left out.
+    // eslint-disable-next-line no-await-in-loop
+    const stats = await stat(absolutePath).catch(() => null);
+    if (stats?.isDirectory()) {
+      // eslint-disable-next-line no-await-in-loop
+      const resolved = await realpath(absolutePath).catch(() => null);
+      if (
+        !resolved ||
+        seen.has(resolved) ||
+        !isArchivable(current, absolutePath, config)
+      )
+        continue;
+
+      const name = `${folder.name}${dirent.name}/`;
+      yield* collectEntries(
+        current,
+        { name, absolutePath, stats },
+        config,
+        seen,
+      );
+    } else if (stats?.isFile()) {
+      // eslint-disable-next-line no-await-in-loop
+      const readable = await access(absolutePath, constants.R_OK).then(
+        () => true,
+        () => false,
+      );
+      if (readable)
+        yield { name: folder.name + dirent.name, absolutePath, stats };
+    }
+  }
+}
+
+/**
+ * Reads the contents of a file, up to the size it had when the archive was
+ * started, so the sizes written before the contents stay true.
+ */
+async function* readContents(entry: ArchiveEntry): AsyncGenerator<Buffer> {
+  if (entry.stats.size === 0) return;
+
+  const stream = createReadStream(entry.absolutePath, {
+    end: entry.stats.size - 1,
+  });
+  for await (const chunk of stream) yield chunk as Buffer;
+}
+
+/* eslint-disable no-bitwise -- Checksums are calculated bit by bit. */
+
+// The lookup table for calculating CRC-32 checksums, which ZIP archives hold
+// for every file.
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++)
+    crc = crc & 1 ? 0xed_b8_83_20 ^ (crc >>> 1) : crc >>> 1;
+  return crc >>> 0;
+});
+
+/**
+ * Continues a CRC-32 checksum with the given bytes.
+ */
+const updateCrc = (crc: number, chunk: Buffer): number => {
+  let value = ~crc;
+  for (const byte of chunk)
+    value = (crcTable[(value ^ byte) & 0xff] ?? 0) ^ (value >>> 8);
+  return ~value >>> 0;
+};
+
+/* eslint-enable no-bitwise */
+
+/**
+ * Converts a date to the time and date fields of a ZIP archive, which have a
+ * precision of two seconds and start in 1980.
+ */
+const toDosTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time:
+      date.getHours() * 2048 +
+      date.getMinutes() * 32 +
+      Math.floor(date.getSeconds() / 2),
+    date: (year - 1980) * 512 + (date.getMonth() + 1) * 32 + date.getDate(),
+  };
+};
+
+// What is needed to write the central directory entry of a file in a ZIP
+// archive, once the file has been written.
+interface ZipRecord {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  mode: number;
+  folder: boolean;
+  zip64: boolean;
+  time: { time: number; date: number };
+}
+
+// The flags of entries in a ZIP archive: names are UTF-8, and the checksum
+// and sizes of files follow their contents, as they are only known then.
+const folderFlags = 0x08_00;
+const fileFlags = 0x08_08;
+// Entries are made on Unix, so their permissions are kept.
+const madeOnUnix = 0x03_00;
+
+/**
+ * Writes a ZIP archive of the given entries. Files are stored without
+ * compression, which keeps downloads of large media files fast. ZIP64 fields
+ * are used where sizes or offsets do not fit the regular ones.
+ */
+async function* writeZip(
+  entries: AsyncIterable<ArchiveEntry>,
+): AsyncGenerator<Buffer> {
+  const records: ZipRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const folder = entry.stats.isDirectory();
+    const name = Buffer.from(entry.name);
+    const zip64 = entry.stats.size >= zip32Limit;
+    const time = toDosTime(entry.stats.mtime);
+
+    const header = Buffer.alloc(30 + name.length + (zip64 ? 20 : 0));
+    header.writeUInt32LE(0x04_03_4b_50, 0);
+    header.writeUInt16LE(zip64 ? 45 : 20, 4);
+    header.writeUInt16LE(folder ? folderFlags : fileFlags, 6);
+    header.writeUInt16LE(time.time, 10);
+    header.writeUInt16LE(time.date, 12);
+    if (zip64) {
+      header.writeUInt32LE(zip32Limit, 18);
+      header.writeUInt32LE(zip32Limit, 22);
+    }
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(zip64 ? 20 : 0, 28);
+    name.copy(header, 30);
+    if (zip64) {
+      header.writeUInt16LE(0x00_01, 30 + name.length);
+      header.writeUInt16LE(16, 32 + name.length);
+    }
+
+    const record: ZipRecord = {
+      name,
+      offset,
+      crc: 0,
+      size: 0,
+      mode: entry.stats.mode,
+      folder,
+      zip64,
+      time,
+    };
+    records.push(record);
+    yield header;
+    offset += header.length;
+    if (folder) continue;
+
+    for await (const chunk of readContents(entry)) {
+      record.crc = updateCrc(record.crc, chunk);
+      record.size += chunk.length;
+      yield chunk;
+    }
+
+    const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+    descriptor.writeUInt32LE(0x08_07_4b_50, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    if (zip64) {
+      descriptor.writeBigUInt64LE(BigInt(record.size), 8);
+      descriptor.writeBigUInt64LE(BigInt(record.size), 16);
+    } else {
+      descriptor.writeUInt32LE(record.size, 8);
+      descriptor.writeUInt32LE(record.size, 12);
+    }
+    yield descriptor;
+    offset += record.size + descriptor.length;
+  }
+
+  const directoryOffset = offset;
+  for (const record of records) {
+    // The ZIP64 field holds the values that do not fit their regular fields.
+    const large = [
+      ...(record.zip64 ? [record.size, record.size] : []),
+      ...(record.offset >= zip32Limit ? [record.offset] : []),
+    ];
+    const extra = Buffer.alloc(large.length > 0 ? 4 + large.length * 8 : 0);
+    if (large.length > 0) {
+      extra.writeUInt16LE(0x00_01, 0);
+      extra.writeUInt16LE(large.length * 8, 2);
+      for (const [index, value] of large.entries())
+        extra.writeBigUInt64LE(BigInt(value), 4 + index * 8);
+    }
+
+    const header = Buffer.alloc(46 + record.name.length);
+    const version = large.length > 0 ? 45 : 20;
+    header.writeUInt32LE(0x02_01_4b_50, 0);
+    header.writeUInt16LE(madeOnUnix + version, 4);
+    header.writeUInt16LE(version, 6);
+    header.writeUInt16LE(record.folder ? folderFlags : fileFlags, 8);
+    header.writeUInt16LE(record.time.time, 12);
+    header.writeUInt16LE(record.time.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.zip64 ? zip32Limit : record.size, 20);
+    header.writeUInt32LE(record.zip64 ? zip32Limit : record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(
+      (record.mode % 0x1_00_00) * 0x1_00_00 + (record.folder ? 0x10 : 0),
+      38,
+    );
+    header.writeUInt32LE(Math.min(record.offset, zip32Limit), 42);
+    record.name.copy(header, 46);
+
+    yield Buffer.concat([header, extra]);
+    offset += header.length + extra.length;
+  }
+
+  const directorySize = offset - directoryOffset;
+  const zip64 =
+    records.length >= zip16Limit ||
+    directoryOffset >= zip32Limit ||
+    directorySize >= zip32Limit;
+
+  if (zip64) {
+    const end = Buffer.alloc(56 + 20);
+    end.writeUInt32LE(0x06_06_4b_50, 0);
+    end.writeBigUInt64LE(BigInt(44), 4);
+    end.writeUInt16LE(madeOnUnix + 45, 12);
+    end.writeUInt16LE(45, 14);
+    end.writeBigUInt64LE(BigInt(records.length), 24);
+    end.writeBigUInt64LE(BigInt(records.length), 32);
+    end.writeBigUInt64LE(BigInt(directorySize), 40);
+    end.writeBigUInt64LE(BigInt(directoryOffset), 48);
+    // The locator, which points at the record above.
+    end.writeUInt32LE(0x07_06_4b_50, 56);
+    end.writeBigUInt64LE(BigInt(offset), 64);
+    end.writeUInt32LE(1, 72);
+    yield end;
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06_05_4b_50, 0);
+  end.writeUInt16LE(Math.min(records.length, zip16Limit), 8);
+  end.writeUInt16LE(Math.min(records.length, zip16Limit), 10);
+  end.writeUInt32LE(Math.min(directorySize, zip32Limit), 12);
+  end.writeUInt32LE(Math.min(directoryOffset, zip32Limit), 16);
+  yield end;
+}
+
+/**
+ * Creates a record of a PAX extended header, which starts with its own
+ * length.
+ */
+const paxRecord = (key: string, value: string): string => {
+  const text = ` ${key}=${value}\n`;
+  const size = Buffer.byteLength(text);
+  let length = size + 1;
+  while (size + String(length).length !== length) length++;
+  return `${length}${text}`;
+};
+
+/**
+ * Creates the header of an entry in a tar archive.
+ */
+const tarHeader = (
+  name: string,
+  type: string,
+  size: number,
+  mode: number,
+  mtime: Date,
+): Buffer => {
+  const header = Buffer.alloc(512);
+  const octal = (value: number, length: number): string =>
+    value.toString(8).padStart(length - 1, '0');
+
+  header.write(name, 0, 100);
+  header.write(octal(mode % 0o10000, 8), 100);
+  header.write(octal(0, 8), 108);
+  header.write(octal(0, 8), 116);
+  header.write(octal(Math.min(size, tarSizeLimit), 12), 124);
+  header.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136);
+  header.write(type, 156);
+  header.write('ustar\u000000', 257);
+
+  // The checksum is calculated with its own field filled with spaces.
+  header.fill(' ', 148, 156);
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(`${octal(checksum, 7)}\u0000 `, 148);
+
+  return header;
+};
+
+/**
+ * Returns the zeros that fill the rest of the last block of an entry in a tar
+ * archive.
+ */
+const tarPadding = (size: number): Buffer =>
+  Buffer.alloc((512 - (size % 512)) % 512);
+
+/**
+ * Writes a tar archive of the given entries. Names that do not fit the
+ * header, or are not plain ASCII, and sizes that are too large for it are
+ * stored in PAX extended headers.
+ */
+async function* writeTar(
+  entries: AsyncIterable<ArchiveEntry>,
+): AsyncGenerator<Buffer> {
+  for await (const entry of entries) {
+    const folder = entry.stats.isDirectory();
+    const size = folder ? 0 : entry.stats.size;
+
+    let pax = '';
+    if (entry.name.length > 100 || /[^ -~]/.test(entry.name))
+      pax += paxRecord('path', entry.name);
+    if (size > tarSizeLimit) pax += paxRecord('size', String(size));
+
+    if (pax) {
+      const records = Buffer.from(pax);
+      yield tarHeader(
+        `PaxHeaders/${path.posix.basename(entry.name)}`.slice(0, 100),
+        'x',
+        records.length,
+        0o644,
+        entry.stats.mtime,
+      );
+      yield records;
+      yield tarPadding(records.length);
+    }
+
+    yield tarHeader(
+      entry.name,
+      folder ? '5' : '0',
+      size,
+      entry.stats.mode,
+      entry.stats.mtime,
+    );
+    if (folder) continue;
+
+    // Files that shrank while being sent are filled up with zeros, so the
+    // size in the header stays true.
+    let written = 0;
+    for await (const chunk of readContents(entry)) {
+      written += chunk.length;
+      yield chunk;
+    }
+    if (written < size) yield Buffer.alloc(size - written);
+    yield tarPadding(size);
+  }
+
+  // The end of the archive is marked by two empty blocks.
+  yield Buffer.alloc(1024);
+}
+
+/**
+ * Sends the given entries as an archive. Once the response has started,
+ * errors can only cut it short, so they are logged.
+ */
+const sendArchive = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  entries: AsyncIterable<ArchiveEntry>,
+  name: string,
+  format: ArchiveFormat,
+): Promise<void> => {
+  response.writeHead(200, {
+    'Content-Type': contentTypes[format],
+    'Content-Disposition': contentDisposition(`${name}.${format}`),
+    'Cache-Control': 'no-store',
+  });
+  if (request.method === 'HEAD') {
+    response.end();
+    return;
+  }
+
+  try {
+    await (format === 'zip'
+      ? pipeline(Readable.from(writeZip(entries)), response)
+      : pipeline(Readable.from(writeTar(entries)), createGzip(), response));
+  } catch (error: unknown) {
+    const { code } = error as NodeJS.ErrnoException;
+    if (code !== 'ERR_STREAM_PREMATURE_CLOSE')
+      logger.error(`Failed to send the archive ${name}: ${String(error)}`);
+  }
+};
+
+/**
+ * Sends a folder as an archive, which contains the folder itself along with
+ * everything in it. The same rules apply as for listing the folder: unlisted
+ * files are left out, and symlinks are only followed when the `symlinks`
+ * option is enabled.
+ *
+ * @param request - The incoming request.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param relativePath - The decoded path of the folder.
+ * @param format - The format of the archive.
+ * @param config - The configuration for the handler.
+ */
+export const handleArchive = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  relativePath: string,
+  format: ArchiveFormat,
+  config: ArchiveConfig,
+): Promise<void> => {
+  const resource = await resolveResource(current, relativePath, config);
+  if (!resource?.stats?.isDirectory()) {
+    sendJSON(response, 404, { success: false, error: 'Folder not found' });
+    return;
+  }
+
+  const folderName = path.basename(resource.absolutePath) || 'download';
+  const entries = collectEntries(
+    current,
+    {
+      name: `${folderName}/`,
+      absolutePath: resource.absolutePath,
+      stats: resource.stats,
+    },
+    config,
+  );
+
+  await sendArchive(request, response, entries, folderName, format);
+};
+
+// A file or folder chosen to be downloaded, which exists.
+type ChosenResource = Resource & { stats: Stats };
+
+// The files and folders chosen to be downloaded, and the format to send them
+// in.
+interface Selection {
+  paths: string[];
+  format: string;
+}
+
+/**
+ * Reads the chosen files and folders from the body of a request, which is
+ * either JSON, or a form with a `path` field for each of them.
+ *
+ * @returns The selection, or `null` if the body is too large or invalid.
+ */
+const readSelection = async (
+  request: IncomingMessage,
+): Promise<Selection | null> => {
+  const data = await readBody(request, maxBodySize);
+  if (!data) return null;
+
+  const text = data.toString('utf8');
+  let selection: Partial<Selection>;
+  if (request.headers['content-type']?.includes('application/json')) {
+    try {
+      selection = JSON.parse(text) as Partial<Selection>;
+    } catch {
+      return null;
+    }
+  } else {
+    const form = new URLSearchParams(text);
+    selection = {
+      paths: form.getAll('path'),
+      format: form.get('format') ?? undefined,
+    };
+  }
+
+  const { paths, format = 'zip' } = selection;
+  if (
+    !Array.isArray(paths) ||
+    paths.length === 0 ||
+    paths.length > maxSelected ||
+    !paths.every((item) => typeof item === 'string') ||
+    typeof format !== 'string'
+  )
+    return null;
+
+  return { paths, format };
+};
+
+/**
+ * Returns the segments of the path of the folder that contains all of the
+ * given files and folders.
+ */
+const getCommonParent = (resources: ChosenResource[]): string[] =>
+  resources
+    .map(({ relativePath }) => relativePath.split('/').slice(0, -1))
+    .reduce((common, parent) => {
+      const length = common.findIndex(
+        (segment, index) => parent[index] !== segment,
+      );
+      return length === -1 ? common : common.slice(0, length);
+    });
+
+/**
+ * Yields the chosen files, and the chosen folders along with everything in
+ * them. Their names in the archive start below the given parent folder.
+ */
+async function* collectSelection(
+  current: string,
+  resources: ChosenResource[],
+  parent: string[],
+  config: ArchiveConfig,
+): AsyncGenerator<ArchiveEntry> {
+  const seen = new Set<string>();
+  for (const { relativePath, absolutePath, stats } of resources) {
+    const name = relativePath.split('/').slice(parent.length).join('/');
+    if (stats.isDirectory())
+      yield* collectEntries(
+        current,
+        { name: `${name}/`, absolutePath, stats },
+        config,
+        seen,
+      );
+    else yield { name, absolutePath, stats };
+  }
+}
+
+/**
+ * Handles a request to download chosen files and folders as one archive.
+ * Every path is checked the same way as for the other endpoints, and nothing
+ * is sent unless all of them can be downloaded.
+ *
+ * @param request - The incoming request.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param config - The configuration for the handler.
+ */
+export const handleSelectionArchive = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  config: ArchiveConfig,
+): Promise<void> => {
+  if (request.method !== 'POST') {
+    response.setHeader('Allow', 'POST');
+    sendJSON(response, 405, { success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  const selection = await readSelection(request);
+  const format = getArchiveFormat({ archive: selection?.format });
+  if (!selection || !format) {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 400, { success: false, error: 'Invalid request body' });
+    return;
+  }
+
+  const resources: ChosenResource[] = [];
+  for (const selected of selection.paths) {
+    // eslint-disable-next-line no-await-in-loop
+    const resource = await resolveResource(current, selected, config);
+    const { stats } = resource ?? {};
+    if (
+      !resource?.relativePath ||
+      !stats ||
+      (!stats.isFile() && !stats.isDirectory()) ||
+      (stats.isDirectory() &&
+        !isArchivable(current, resource.absolutePath, config))
+    ) {
+      sendJSON(response, 404, {
+        success: false,
+        error: 'File not found',
+        path: selected,
+      });
+      return;
+    }
+
+    resources.push({ ...resource, stats });
+  }
+
+  // Files chosen along with a folder they are in are only added once.
+  resources.sort((a, b) => (a.relativePath < b.relativePath ? -1 : 1));
+  const unique = resources.filter(
+    ({ relativePath }, index) =>
+      !resources
+        .slice(0, index)
+        .some(
+          (other) =>
+            relativePath === other.relativePath ||
+            relativePath.startsWith(`${other.relativePath}/`),
+        ),
+  );
+
+  // The archive is named after the only file or folder in it, or the folder
+  // that contains all of them.
+  const parent = getCommonParent(unique);
+  let name = parent[parent.length - 1] ?? path.basename(current);
+  if (unique.length === 1)
+    name = path.parse(unique[0]?.absolutePath ?? '').name;
+
+  await sendArchive(
+    request,
+    response,
+    collectSelection(current, unique, parent, config),
+    name || 'download',
+    format,
+  );
+};
@@ -0,0 +1,675 @@
+// source/handler/board.ts
+// The shared boards, texts that everyone viewing the listing can edit. There
+// is a default board, and named ones are created as soon as they are used.
+// Boards are kept in memory, and saved to files unless persistence is turned
+// off. Every change bumps the version of a board and is pushed to everyone
+// watching it over Server-Sent Events. The latest changes are kept as
+// revisions, so a board can be restored after someone clears it. The size of
+// a board and how often each client can change boards are limited, so a
+// misbehaving script cannot exhaust the memory or flood the boards.
+
+import path from 'node:path';
+import { readFile, readdir } from 'node:fs/promises';
+import bytes from 'bytes';
+import { logger } from '../utilities/logger.js';
+import { registerCloseListener } from '../utilities/http.js';
+import { stateDirectory } from './state.js';
+import { readBody, sendJSON } from './response.js';
+import { renderMarkdown } from './markdown.js';
+import { toBytes, writeAtomically } from './upload.js';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+export interface BoardConfig {
+  // Where to save the default board, relative to the served directory. Named
+  // boards are saved next to it. `false` or an empty string keeps them in
+  // memory only.
+  path?: string | false;
+  // The boards that can only be read, or `true` to make all of them so.
+  readOnly?: boolean | string[];
+  // How many revisions to keep for each board.
+  maxRevisions?: number;
+  // The largest change that is accepted, in bytes or as a string like `1 MB`.
+  maxSize?: number | string;
+  // How many changes each client can make in a minute, across all boards.
+  maxWritesPerMinute?: number;
+}
+
+// The path the default board lives at. Named boards live below it.
+export const boardPath = '/__board';
+// The path that lists the boards.
+export const boardListPath = '/__boards';
+
+// Where the default board is saved by default, hidden from listings along
+// with the rest of the state directory.
+export const defaultBoardFile = path.join(stateDirectory, 'board.json');
+
+// The name of the board at `/__board`, which can also be reached by name.
+const defaultBoardName = 'default';
+// The names that can be given to boards, which are also used in file names.
+const boardNamePattern = /^[\w-]{1,64}$/;
+
+// How often a comment is sent to the clients watching the board, so proxies
+// do not close the connection while nobody is typing.
+const heartbeatInterval = 30_000;
+
+// The limits that apply when they are not configured.
+const defaultMaxRevisions = 50;
+const defaultMaxSize = '1 MB';
+const defaultMaxWritesPerMinute = 120;
+
+// A change that was made to a board.
+interface Revision {
+  // The version of the board after the change.
+  version: number;
+  content: string;
+  // When the change was saved, as an ISO 8601 string.
+  savedAt: string;
+  // The address of the client that made the change.
+  ip: string;
+  // The size of the content in bytes.
+  size: number;
+}
+
+// The contents of the file the board is saved to.
+interface StoredBoard {
+  content: string;
+  // Increases by one with every change, so clients can tell when the board
+  // changed since they last saw it.
+  version: number;
+  // The latest changes, oldest first.
+  revisions: Revision[];
+}
+
+// A board as it is listed by `/__boards`.
+interface BoardSummary {
+  name: string;
+  version: number;
+  readOnly: boolean;
+}
+
+// Thrown when a change is based on an old version of the board.
+class ConflictError extends Error {}
+
+// Where a board is kept.
+interface BoardLocation {
+  // The key the board is kept under in memory: the path of its file, or its
+  // name prefixed with a colon when it is not saved.
+  key: string;
+  file: string | null;
+}
+
+// The boards that have been loaded, by their key.
+const boards = new Map<string, Promise<StoredBoard>>();
+// The last save to each board, so saves happen one after the other.
+const pendingSaves = new Map<string, Promise<void>>();
+// The clients watching each board, under the same keys as `boards`.
+const watchers = new Map<string, Set<ServerResponse>>();
+// The contents of each board rendered as HTML, for the version they were
+// rendered for.
+const renderedBoards = new WeakMap<
+  StoredBoard,
+  { version: number; html: string }
+>();
+// The changes each client made in the current minute, by their address.
+const writeWindows = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * Checks whether a path belongs to the board endpoints.
+ *
+ * @param pathname - The path of the request.
+ * @returns Whether `handleBoard` should handle the request.
+ */
+export const isBoardPath = (pathname: string): boolean =>
+  pathname === boardPath ||
+  pathname === boardListPath ||
+  pathname.startsWith(`${boardPath}/`);
+
+/**
+ * Returns where a board is kept. A named board is saved next to the default
+ * one, with its name added to the file name: `board.<name>.json`.
+ */
+const getBoardLocation = (
+  current: string,
+  config: BoardConfig,
+  name: string,
+): BoardLocation => {
+  const { path: file = defaultBoardFile } = config;
+  if (!file) return { key: `:${name}`, file: null };
+
+  const resolved = path.resolve(current, file);
+  if (name === defaultBoardName) return { key: resolved, file: resolved };
+
+  const { dir, name: base, ext } = path.parse(resolved);
+  const named = path.join(dir, `${base}.${name}${ext}`);
+  return { key: named, file: named };
+};
+
+const isReadOnly = (config: BoardConfig, name: string): boolean =>
+  config.readOnly === true ||
+  (Array.isArray(config.readOnly) && config.readOnly.includes(name));
+
+const isRevision = (value: unknown): value is Revision => {
+  const revision = value as Partial<Revision> | null;
+  return (
+    typeof revision?.version === 'number' &&
+    typeof revision.content === 'string' &&
+    typeof revision.savedAt === 'string' &&
+    typeof revision.ip === 'string' &&
+    typeof revision.size === 'number'
+  );
+};
+
+const loadBoard = async (file: string | null): Promise<StoredBoard> => {
+  if (!file) return { content: '', version: 0, revisions: [] };
+
+  try {
+    const stored = JSON.parse(
+      await readFile(file, 'utf8'),
+    ) as Partial<StoredBoard>;
+    return {
+      content: typeof stored.content === 'string' ? stored.content : '',
+      version:
+        typeof stored.version === 'number' &&
+        Number.isSafeInteger(stored.version)
+          ? stored.version
+          : 0,
+      revisions: Array.isArray(stored.revisions)
+        ? stored.revisions.filter(isRevision)
+        : [],
+    };
+  } catch (err: unknown) {
+    const error = err as NodeJS.ErrnoException;
+    if (error.code !== 'ENOENT')
+      logger.error(`Could not load the board from ${file}: ${String(err)}`);
+
+    return { content: '', version: 0, revisions: [] };
+  }
+};
+
+/**
+ * Returns a board, reading it from its file the first time it is needed.
+ * Boards that were never written to are not kept, so looking at any number
+ * of names does not fill up the memory.
+ */
+const getBoard = async ({ key, file }: BoardLocation): Promise<StoredBoard> => {
+  const cached = boards.get(key);
+  if (cached) return cached;
+
+  const board = loadBoard(file);
+  boards.set(key, board);
+  // A save may have replaced the board in the meantime.
+  if ((await board).version === 0 && boards.get(key) === board)
+    boards.delete(key);
+
+  return board;
+};
+
+/**
+ * Returns the names of the default board and of every named board that has
+ * been written to.
+ */
+const listBoards = async (
+  current: string,
+  config: BoardConfig,
+): Promise<BoardSummary[]> => {
+  const names = new Set([defaultBoardName]);
+
+  const { file } = getBoardLocation(current, config, defaultBoardName);
+  if (file) {
+    const { dir, name: base, ext } = path.parse(file);
+    const entries = await readdir(dir).catch(() => []);
+    for (const entry of entries) {
+      if (!entry.startsWith(`${base}.`) || !entry.endsWith(ext)) continue;
+
+      const name = entry.slice(base.length + 1, entry.length - ext.length);
+      if (boardNamePattern.test(name)) names.add(name);
+    }
+  } else {
+    for (const key of boards.keys())
+      if (key.startsWith(':')) names.add(key.slice(1));
+  }
+
+  const summaries = await Promise.all(
+    [...names].sort().map(async (name) => {
+      const { version } = await getBoard(
+        getBoardLocation(current, config, name),
+      );
+      return { name, version, readOnly: isReadOnly(config, name) };
+    }),
+  );
+  // Boards that were only looked at have never been created.
+  return summaries.filter(
+    ({ name, version }) => name === defaultBoardName || version > 0,
+  );
+};
+
+/**
+ * Formats an event for the clients watching a board.
+ */
+const formatEvent = ({ content, version }: StoredBoard): string =>
+  `event: board\ndata: ${JSON.stringify({ content, version })}\n\n`;
+
+/**
+ * Sends the current state of a board to everyone watching it.
+ */
+const broadcast = (key: string, board: StoredBoard): void => {
+  const event = formatEvent(board);
+  for (const watcher of watchers.get(key) ?? []) watcher.write(event);
+};
+
+/**
+ * Ends every event stream, so open connections do not keep the server from
+ * shutting down.
+ */
+const closeWatchers = (): void => {
+  for (const clients of watchers.values())
+    for (const watcher of clients) watcher.end();
+};
+
+let closeListenerRegistered = false;
+
+/**
+ * Keeps the response open and sends the board to it every time it changes.
+ */
+const watchBoard = (
+  response: ServerResponse,
+  { key }: BoardLocation,
+  board: StoredBoard,
+): void => {
+  if (!closeListenerRegistered) {
+    registerCloseListener(closeWatchers);
+    closeListenerRegistered = true;
+  }
+
+  const clients = watchers.get(key) ?? new Set<ServerResponse>();
+  watchers.set(key, clients);
+  clients.add(response);
+
+  // `no-transform` keeps the compression middleware from buffering events.
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+  response.write(formatEvent(board));
+
+  const heartbeat = setInterval(
+    () => response.write(': heartbeat\n\n'),
+    heartbeatInterval,
+  );
+  response.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(response);
+    if (clients.size === 0) watchers.delete(key);
+  });
+};
+
+/**
+ * Reads the version a change is based on from the `If-Match` header. Returns
+ * `null` when any version is accepted.
+ */
+const getExpectedVersion = (
+  request: IncomingMessage,
+): number | null | undefined => {
+  const header = request.headers['if-match']?.trim();
+  if (!header || header === '*') return null;
+
+  const version = Number(header.replace(/^(?:W\/)?"(?<tag>.*)"$/, '$<tag>'));
+  return Number.isSafeInteger(version) ? version : undefined;
+};
+
+/**
+ * Saves the new contents of the board, and only updates the board in memory
+ * once they are safely on the disk. Saves happen one after the other, so the
+ * version is checked against the board as the previous save left it.
+ */
+const saveBoard = async (
+  location: BoardLocation,
+  { content, ip }: Pick<Revision, 'content' | 'ip'>,
+  expectedVersion: number | null,
+  maxRevisions: number,
+): Promise<StoredBoard> => {
+  const { key, file } = location;
+  const previous = pendingSaves.get(key) ?? Promise.resolve();
+  const save = previous.then(async () => {
+    const board = await getBoard(location);
+    if (expectedVersion !== null && expectedVersion !== board.version)
+      throw new ConflictError('The board has changed since it was loaded');
+
+    const version = board.version + 1;
+    const revision: Revision = {
+      version,
+      content,
+      savedAt: new Date().toISOString(),
+      ip,
+      size: Buffer.byteLength(content),
+    };
+    const revisions =
+      maxRevisions > 0
+        ? [...board.revisions, revision].slice(-maxRevisions)
+        : [];
+
+    const stored: StoredBoard = { content, version, revisions };
+    if (file) await writeAtomically(file, JSON.stringify(stored));
+
+    Object.assign(board, stored);
+    boards.set(key, Promise.resolve(board));
+    broadcast(key, board);
+    return stored;
+  });
+  // A failed save is reported to its own request, and must not hold up the
+  // ones after it.
+  pendingSaves.set(
+    key,
+    save.then(
+      () => undefined,
+      () => undefined,
+    ),
+  );
+
+  return save;
+};
+
+// The paths below `/__board`: a board, its rendered contents, its revisions,
+// one revision, and the restoring of one.
+const boardRoutePattern =
+  /^\/__board(?:\/(?<name>[\w-]{1,64})(?:(?<rendered>\/rendered)|(?<revisions>\/revisions(?:\/(?<revision>\d{1,15})(?<restore>\/restore)?)?))?)?$/;
+
+interface BoardRoute {
+  name: string;
+  // Whether the contents were requested as HTML.
+  rendered: boolean;
+  // Whether the revisions of the board were requested.
+  revisions: boolean;
+  // The version of the revision that was requested, if any.
+  revision?: number;
+  restore: boolean;
+}
+
+const parseBoardPath = (pathname: string): BoardRoute | null => {
+  const groups = boardRoutePattern.exec(pathname)?.groups;
+  if (!groups) return null;
+
+  return {
+    name: groups.name ?? defaultBoardName,
+    rendered: Boolean(groups.rendered),
+    revisions: Boolean(groups.revisions),
+    revision: groups.revision ? Number(groups.revision) : undefined,
+    restore: Boolean(groups.restore),
+  };
+};
+
+/**
+ * Renders the contents of a board as Markdown, once for every version.
+ */
+const getRenderedBoard = (board: StoredBoard): string => {
+  const cached = renderedBoards.get(board);
+  if (cached?.version === board.version) return cached.html;
+
+  const html = renderMarkdown(board.content);
+  renderedBoards.set(board, { version: board.version, html });
+  return html;
+};
+
+const getClientAddress = (request: IncomingMessage): string =>
+  request.socket.remoteAddress?.replace('::ffff:', '') ?? 'unknown';
+
+/**
+ * Counts a change made by a client. Returns the number of seconds until the
+ * client may make changes again if it made too many, or `null` otherwise.
+ */
+const limitWrites = (ip: string, config: BoardConfig): number | null => {
+  const { maxWritesPerMinute = defaultMaxWritesPerMinute } = config;
+  if (maxWritesPerMinute <= 0) return null;
+
+  const now = Date.now();
+  for (const [address, window] of writeWindows)
+    if (window.resetAt <= now) writeWindows.delete(address);
+
+  const window = writeWindows.get(ip) ?? { count: 0, resetAt: now + 60_000 };
+  writeWindows.set(ip, window);
+
+  window.count += 1;
+  return window.count > maxWritesPerMinute
+    ? Math.ceil((window.resetAt - now) / 1000)
+    : null;
+};
+
+/**
+ * Saves a change to a board and responds with its new version, or with the
+ * current board when the change is based on an old version of it.
+ */
+const respondWithSave = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  location: BoardLocation,
+  content: string,
+  expectedVersion: number | null,
+  config: BoardConfig,
+): Promise<void> => {
+  const ip = getClientAddress(request);
+  const { maxRevisions = defaultMaxRevisions } = config;
+
+  let saved: StoredBoard;
+  try {
+    saved = await saveBoard(
+      location,
+      { content, ip },
+      expectedVersion,
+      maxRevisions,
+    );
+  } catch (err: unknown) {
+    if (err instanceof ConflictError) {
+      const board = await getBoard(location);
+      response.setHeader('ETag', `"${board.version}"`);
+      sendJSON(response, 409, {
+        success: false,
+        error: err.message,
+        content: board.content,
+        version: board.version,
+      });
+      return;
+    }
+
+    logger.error(`Could not save the board: ${String(err)}`);
+    sendJSON(response, 500, {
+      success: false,
+      error: 'Could not save the board',
+    });
+    return;
+  }
+
+  response.setHeader('ETag', `"${saved.version}"`);
+  sendJSON(response, 200, { success: true, version: saved.version });
+};
+
+/**
+ * Handles a request to the board endpoints:
+ *
+ * - `GET /__boards` lists the boards.
+ * - `GET /__board/:name` returns the contents and version of a board, or
+ *   streams them every time they change when the client accepts
+ *   `text/event-stream`. `/__board` is the default board.
+ * - `POST /__board/:name` with `{ content }` replaces them. An `If-Match`
+ *   header with the version the change is based on makes a stale change fail
+ *   with `409`, along with the current board so the client can merge.
+ * - `GET /__board/:name/rendered` returns the contents of a board rendered
+ *   as Markdown, in `html`.
+ * - `GET /__board/:name/revisions` lists the revisions of a board, newest
+ *   first, and `GET /__board/:name/revisions/:version` returns one of them.
+ * - `POST /__board/:name/revisions/:version/restore` saves the contents of a
+ *   revision as a new change.
+ *
+ * @param request - The request to handle.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param pathname - The path of the request.
+ * @param config - Where the boards are saved, and which can be changed.
+ */
+export const handleBoard = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  pathname: string,
+  config: BoardConfig = {},
+): Promise<void> => {
+  if (pathname === boardListPath) {
+    if (request.method === 'GET') {
+      sendJSON(response, 200, { boards: await listBoards(current, config) });
+    } else {
+      response.setHeader('Allow', 'GET');
+      sendJSON(response, 405, { success: false, error: 'Method not allowed' });
+    }
+    return;
+  }
+
+  const route = parseBoardPath(pathname);
+  if (!route) {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 404, { success: false, error: 'Not found' });
+    return;
+  }
+
+  const location = getBoardLocation(current, config, route.name);
+  const board = await getBoard(location);
+  const readOnly = isReadOnly(config, route.name);
+
+  let allowedMethods = ['GET', 'POST'];
+  if (route.rendered) allowedMethods = ['GET'];
+  if (route.revisions) allowedMethods = route.restore ? ['POST'] : ['GET'];
+  if (!allowedMethods.includes(request.method ?? 'GET')) {
+    response.setHeader('Connection', 'close');
+    response.setHeader('Allow', allowedMethods.join(', '));
+    sendJSON(response, 405, { success: false, error: 'Method not allowed' });
+    return;
+  }
+  if (request.method === 'POST' && readOnly) {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 403, {
+      success: false,
+      error: 'The board is read-only',
+    });
+    return;
+  }
+
+  if (request.method === 'POST') {
+    const retryAfter = limitWrites(getClientAddress(request), config);
+    if (retryAfter !== null) {
+      response.setHeader('Connection', 'close');
+      response.setHeader('Retry-After', String(retryAfter));
+      sendJSON(response, 429, {
+        success: false,
+        error: `Too many changes, try again in ${retryAfter} seconds`,
+      });
+      return;
+    }
+  }
+
+  if (route.rendered) {
+    sendJSON(response, 200, {
+      html: getRenderedBoard(board),
+      version: board.version,
+    });
+    return;
+  }
+
+  if (route.revisions) {
+    const revision = board.revisions.find(
+      ({ version }) => version === route.revision,
+    );
+
+    if (route.revision === undefined) {
+      const revisions = board.revisions
+        .map(({ content: _content, ...details }) => details)
+        .reverse();
+      sendJSON(response, 200, { revisions });
+    } else if (!revision) {
+      response.setHeader('Connection', 'close');
+      sendJSON(response, 404, {
+        success: false,
+        error: 'The revision does not exist',
+      });
+    } else if (route.restore) {
+      // The body is not needed, but has to be read for the connection to be
+      // reused.
+      request.resume();
+      await respondWithSave(
+        request,
+        response,
+        location,
+        revision.content,
+        null,
+        config,
+      );
+    } else {
+      sendJSON(response, 200, revision);
+    }
+    return;
+  }
+
+  if (request.method === 'GET') {
+    if (request.headers.accept?.includes('text/event-stream')) {
+      watchBoard(response, location, board);
+      return;
+    }
+
+    response.setHeader('ETag', `"${board.version}"`);
+    sendJSON(response, 200, {
+      content: board.content,
+      version: board.version,
+      readOnly,
+    });
+    return;
+  }
+
+  const expectedVersion = getExpectedVersion(request);
+  if (expectedVersion === undefined) {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 400, { success: false, error: 'Invalid If-Match' });
+    return;
+  }
+
+  const maxSize = toBytes(config.maxSize ?? defaultMaxSize);
+  const tooLarge = (): void => {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 413, {
+      success: false,
+      error: `The board can hold at most ${bytes(maxSize ?? 0)}`,
+    });
+  };
+
+  const contentLength = Number(request.headers['content-length'] ?? 0);
+  if (maxSize !== null && contentLength > maxSize) {
+    tooLarge();
+    return;
+  }
+
+  const data = await readBody(request, maxSize);
+  if (!data) {
+    tooLarge();
+    return;
+  }
+
+  let body: { content?: unknown } | null;
+  try {
+    body = JSON.parse(data.toString('utf-8')) as {
+      content?: unknown;
+    } | null;
+  } catch {
+    sendJSON(response, 400, { success: false, error: 'Invalid JSON' });
+    return;
+  }
+  if (typeof body?.content !== 'string') {
+    sendJSON(response, 400, { success: false, error: 'Invalid content' });
+    return;
+  }
+
+  await respondWithSave(
+    request,
+    response,
+    location,
+    body.content,
+    expectedVersion,
+    config,
+  );
+};
@@ -0,0 +1,99 @@
+// source/handler/digest.ts
+// Verify uploaded bytes against the checksums sent by the client, in the
+// `Content-MD5`, `Digest` (RFC 3230) or `Content-Digest` (RFC 9530) headers.
+
+import { createHash } from 'node:crypto';
+import type { Hash } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+
+// A checksum the uploaded bytes are expected to match.
+export interface ExpectedDigest {
+  // The header the checksum came from, used in error messages.
+  header: string;
+  // The name of the algorithm in `node:crypto`.
+  algorithm: string;
+  // The base64 encoded checksum.
+  value: string;
+}
+
+// The algorithms that can be verified, by their name in the headers.
+const algorithms: Record<string, string> = {
+  md5: 'md5',
+  sha: 'sha1',
+  'sha-256': 'sha256',
+  'sha-512': 'sha512',
+};
+
+/**
+ * Reads the checksums sent along with an upload. Algorithms that are not
+ * supported are ignored, as the RFCs ask.
+ *
+ * @param headers - The headers of the request.
+ * @returns The checksums to verify the body against.
+ */
+export const getExpectedDigests = (
+  headers: IncomingHttpHeaders,
+): ExpectedDigest[] => {
+  const digests: ExpectedDigest[] = [];
+
+  const contentMD5 = headers['content-md5'];
+  if (typeof contentMD5 === 'string')
+    digests.push({
+      header: 'Content-MD5',
+      algorithm: 'md5',
+      value: contentMD5.trim(),
+    });
+
+  for (const header of ['Digest', 'Content-Digest']) {
+    const value = headers[header.toLowerCase()];
+    if (typeof value !== 'string') continue;
+
+    for (const entry of value.split(',')) {
+      const separator = entry.indexOf('=');
+      const name = entry.slice(0, separator).trim().toLowerCase();
+      const algorithm = algorithms[name];
+      if (separator === -1 || !algorithm) continue;
+
+      // `Content-Digest` wraps the checksum in colons.
+      const checksum = entry
+        .slice(separator + 1)
+        .trim()
+        .replace(/^:(?<inner>.*):$/, '$<inner>');
+      digests.push({ header, algorithm, value: checksum });
+    }
+  }
+
+  return digests;
+};
+
+/**
+ * Computes the checksums of a body as it is received, and compares them with
+ * the expected ones at the end.
+ *
+ * @param expected - The checksums sent by the client.
+ * @returns A function to feed the body to, and one that returns the header
+ *          whose checksum does not match, if any.
+ */
+export const createDigestVerifier = (
+  expected: ExpectedDigest[],
+): { update: (chunk: Buffer) => void; verify: () => string | null } => {
+  const hashes = new Map<string, Hash>();
+  for (const { algorithm } of expected)
+    if (!hashes.has(algorithm)) hashes.set(algorithm, createHash(algorithm));
+
+  return {
+    update: (chunk) => {
+      for (const hash of hashes.values()) hash.update(chunk);
+    },
+    verify: () => {
+      const actual = new Map<string, string>();
+      for (const [algorithm, hash] of hashes)
+        actual.set(algorithm, hash.digest('base64'));
+
+      const mismatch = expected.find(
+        ({ algorithm, value }) => actual.get(algorithm) !== value,
+      );
+      return mismatch?.header ?? null;
+    },
+  };
+};
@@ -0,0 +1,195 @@
+// source/handler/files.ts
+// Manage the files in the served directory through the `/__mkdir`, `/__move`
+// and `/__delete` endpoints.
+
+import path from 'node:path';
+import { mkdir, rm } from 'node:fs/promises';
+import isPathInside from 'path-is-inside';
+import { logger } from '../utilities/logger.js';
+import { readBody, sendJSON } from './response.js';
+import {
+  isAllowedResource,
+  isDirectory,
+  resolveResource,
+} from './resources.js';
+import { moveFile } from './upload.js';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ResourceConfig } from './resources.js';
+import type { UploadConfig } from './upload.js';
+
+export interface FileActionConfig extends ResourceConfig {
+  uploads?: UploadConfig;
+}
+
+// The result of an action, along with the status code to respond with.
+interface ActionResult {
+  statusCode: number;
+  error?: string;
+}
+
+type Action = (
+  current: string,
+  body: Record<string, unknown>,
+  config: FileActionConfig,
+) => Promise<ActionResult>;
+
+// The largest request body accepted by the endpoints.
+const maxBodySize = 64 * 1024;
+
+const invalidBody: ActionResult = {
+  statusCode: 400,
+  error: 'Invalid request body',
+};
+const notFound: ActionResult = { statusCode: 404, error: 'File not found' };
+
+/**
+ * Parses the JSON object in the body of a request.
+ *
+ * @returns The object, or `null` if the body is not an object.
+ */
+const parseBody = (data: Buffer): Record<string, unknown> | null => {
+  try {
+    const body = JSON.parse(data.toString('utf8')) as unknown;
+    return typeof body === 'object' && body !== null && !Array.isArray(body)
+      ? (body as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Creates the directory at `path`. Its parent has to exist already.
+ */
+const createDirectory: Action = async (current, body, config) => {
+  if (typeof body.path !== 'string') return invalidBody;
+
+  const resource = await resolveResource(current, body.path, config, 'write');
+  if (!resource?.relativePath) return notFound;
+  if (resource.stats)
+    return { statusCode: 409, error: 'A file with that name already exists' };
+  if (!(await isDirectory(path.dirname(resource.absolutePath))))
+    return { statusCode: 404, error: 'Parent folder does not exist' };
+
+  await mkdir(resource.absolutePath);
+  return { statusCode: 201 };
+};
+
+/**
+ * Renames or moves the file or directory at `from` to `to`. Nothing is
+ * overwritten, and the destination of every file that is moved has to be
+ * allowed by the upload rules.
+ */
+const moveResource: Action = async (current, body, config) => {
+  if (typeof body.from !== 'string' || typeof body.to !== 'string')
+    return invalidBody;
+
+  const [source, destination] = await Promise.all([
+    resolveResource(current, body.from, config, 'write'),
+    resolveResource(current, body.to, config, 'write'),
+  ]);
+  if (!source?.relativePath || !source.stats) return notFound;
+  if (!destination?.relativePath)
+    return { statusCode: 400, error: 'Invalid destination' };
+  if (destination.stats)
+    return { statusCode: 409, error: 'A file with that name already exists' };
+  if (isPathInside(destination.absolutePath, source.absolutePath))
+    return { statusCode: 400, error: 'Cannot move a folder into itself' };
+  if (!(await isDirectory(path.dirname(destination.absolutePath))))
+    return { statusCode: 404, error: 'Destination folder does not exist' };
+  if (
+    !(await isAllowedResource(
+      source.absolutePath,
+      destination.relativePath,
+      config.uploads ?? {},
+    ))
+  )
+    return { statusCode: 415, error: 'Files like that are not allowed' };
+
+  await moveFile(source.absolutePath, destination.absolutePath);
+  return { statusCode: 200 };
+};
+
+/**
+ * Deletes the file or directory at `path`, along with everything in it.
+ */
+const deleteResource: Action = async (current, body, config) => {
+  if (typeof body.path !== 'string') return invalidBody;
+
+  const resource = await resolveResource(current, body.path, config, 'write');
+  if (!resource?.relativePath || !resource.stats) return notFound;
+
+  await rm(resource.absolutePath, { recursive: true, force: true });
+  return { statusCode: 200 };
+};
+
+// The endpoints, and the actions they perform.
+const actions: Record<string, Action> = {
+  '/__mkdir': createDirectory,
+  '/__move': moveResource,
+  '/__delete': deleteResource,
+};
+
+export const fileActionPaths = Object.keys(actions);
+
+/**
+ * Handles a request to one of the file management endpoints. Each of them
+ * takes a JSON body with the paths to act on, relative to the served
+ * directory:
+ *
+ * - `POST /__mkdir` with `{ path }` creates a directory.
+ * - `POST /__move` with `{ from, to }` renames or moves a file or directory.
+ * - `POST /__delete` with `{ path }` deletes a file or directory.
+ *
+ * @param request - The request to handle.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param pathname - The path of the request.
+ * @param config - The configuration for the handler.
+ */
+export const handleFileAction = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  pathname: string,
+  config: FileActionConfig,
+): Promise<void> => {
+  const action = actions[pathname];
+  if (!action) {
+    sendJSON(response, 404, { success: false, error: 'Not found' });
+    return;
+  }
+  if (request.method !== 'POST') {
+    response.setHeader('Allow', 'POST');
+    sendJSON(response, 405, { success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  // Only JSON is accepted, so that other sites cannot send requests here
+  // without the browser asking for permission first.
+  const type = request.headers['content-type']?.split(';')[0]?.trim();
+  if (type?.toLowerCase() !== 'application/json') {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 415, {
+      success: false,
+      error: 'The body has to be JSON',
+    });
+    return;
+  }
+
+  const data = await readBody(request, maxBodySize);
+  const body = data && parseBody(data);
+  if (!body) {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 400, { success: false, error: invalidBody.error });
+    return;
+  }
+
+  try {
+    const { statusCode, error } = await action(current, body, config);
+    sendJSON(response, statusCode, { success: !error, error });
+  } catch (err: unknown) {
+    logger.error(String(err));
+    sendJSON(response, 500, { success: false, error: 'Could not change file' });
+  }
+};
@@ -0,0 +1,201 @@
+// source/handler/highlight.ts
+// Highlights the syntax of source code for the preview pages. This does not
+// parse any language properly: it finds the comments, strings, numbers and
+// keywords that most languages write the same way, which is enough to make
+// code easier to read. Everything is escaped, so the result is safe to show.
+
+import path from 'node:path';
+import { escapeHTML } from './markdown.js';
+
+// How the languages of a family write their comments and keywords.
+interface Grammar {
+  // Patterns that match comments, from their start to their end.
+  comments: string[];
+  keywords: Set<string>;
+  // Whether keywords are matched regardless of case.
+  ignoreCase?: boolean;
+  // Whether tags like `<div>` are highlighted.
+  tags?: boolean;
+}
+
+const blockComment = '\\/\\*[\\s\\S]*?(?:\\*\\/|$)';
+const lineComment = (marker: string): string => `${marker}[^\\n]*`;
+
+// Plain text, which is only given line numbers.
+const plainText: Grammar = { comments: [], keywords: new Set() };
+
+const grammars: Record<string, Grammar> = {
+  // JavaScript, TypeScript, C, Java, Go, Rust and their relatives.
+  c: {
+    comments: [lineComment('\\/\\/'), blockComment],
+    keywords: new Set(
+      [
+        'abstract as async await break case catch class const continue',
+        'default defer delete do else enum export extends false final',
+        'finally fn for from func function go if impl implements import in',
+        'instanceof interface let match mod mut new null package private',
+        'protected pub public readonly return self static struct super',
+        'switch this throw throws trait true try type typeof undefined',
+        'unsafe use var void where while yield',
+      ]
+        .join(' ')
+        .split(' '),
+    ),
+  },
+  // Python, Ruby, shell scripts and configuration files.
+  hash: {
+    comments: [lineComment('#')],
+    keywords: new Set(
+      [
+        'and as assert async await begin break case class def del do done',
+        'echo elif else end esac except export false fi finally for from',
+        'function if import in is lambda local module nil none not or pass',
+        'raise require return self then true try unless until while with',
+        'yield',
+      ]
+        .join(' ')
+        .split(' '),
+    ),
+    ignoreCase: true,
+  },
+  sql: {
+    comments: [lineComment('--'), blockComment],
+    keywords: new Set(
+      [
+        'and as asc by create delete desc distinct drop from group having',
+        'in index insert into is join left limit not null on or order',
+        'primary key right select set table union update values where',
+      ]
+        .join(' ')
+        .split(' '),
+    ),
+    ignoreCase: true,
+  },
+  // HTML, XML and SVG.
+  markup: {
+    comments: ['<!--[\\s\\S]*?(?:-->|$)'],
+    keywords: new Set(),
+    tags: true,
+  },
+  text: plainText,
+};
+
+// The family of the language of each extension.
+const languages: Record<string, string> = {};
+const addLanguages = (grammar: string, extensions: string): void => {
+  for (const extension of extensions.split(' '))
+    languages[`.${extension}`] = grammar;
+};
+
+addLanguages(
+  'c',
+  'c cc cjs cpp cs css cts dart go h hpp java js json jsonc jsx kt less mjs mts php rs scala scss swift ts tsx',
+);
+addLanguages(
+  'hash',
+  'bash cfg conf env fish ini pl properties ps1 py r rb sh toml yaml yml zsh',
+);
+addLanguages('sql', 'sql');
+addLanguages('markup', 'htm html svg vue xml');
+addLanguages('text', 'csv diff log patch rst tsv txt');
+
+// Files that are known by their name rather than their extension.
+const namedFiles: Record<string, string> = {
+  '.env': 'hash',
+  '.gitignore': 'hash',
+  dockerfile: 'hash',
+  makefile: 'hash',
+  license: 'text',
+};
+
+/**
+ * Finds the grammar that highlights the file with the given name.
+ *
+ * @returns The grammar, or `null` if the file is not known to be text.
+ */
+const getGrammar = (name: string): Grammar | null => {
+  const family =
+    languages[path.extname(name).toLowerCase()] ??
+    namedFiles[name.toLowerCase()];
+  return family ? grammars[family] ?? null : null;
+};
+
+/**
+ * Checks whether the file with the given name is source code or text that
+ * can be highlighted.
+ */
+export const isHighlightable = (name: string): boolean =>
+  getGrammar(name) !== null;
+
+/**
+ * Creates the expression that finds the pieces of code to highlight.
+ */
+const createPattern = (grammar: Grammar): RegExp =>
+  new RegExp(
+    [
+      grammar.comments.length > 0
+        ? `(?<comment>${grammar.comments.join('|')})`
+        : '',
+      // Quotes that are not closed on the same line, like apostrophes in
+      // text, do not start strings. Template strings can span lines.
+      '(?<string>"(?:[^"\\\\\\n]|\\\\.)*"|\'(?:[^\'\\\\\\n]|\\\\.)*\'|`(?:[^`\\\\]|\\\\.)*`)',
+      grammar.tags ? '(?<tag><\\/?[\\w:-]+|\\/?>)' : '',
+      '(?<number>\\b(?:0x[\\da-f]+|\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?)\\b)',
+      '(?<word>[a-z_$][\\w$]*)',
+    ]
+      .filter(Boolean)
+      .join('|'),
+    'giu',
+  );
+
+/**
+ * Highlights source code, and splits it into lines, so the pieces that span
+ * several lines, like comments, are highlighted on each of them.
+ *
+ * @param code - The code to highlight.
+ * @param name - The name of the file, which decides the language.
+ * @returns The lines of code as HTML.
+ */
+export const highlightCode = (code: string, name: string): string[] => {
+  const grammar = getGrammar(name) ?? plainText;
+  const lines: string[] = [''];
+
+  // Adds a piece of code to the lines, wrapped in an element of the given
+  // class on every line it appears on.
+  const add = (text: string, className?: string): void => {
+    text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push('');
+      if (!part) return;
+
+      const escaped = escapeHTML(part);
+      lines[lines.length - 1] += className
+        ? `<span class="${className}">${escaped}</span>`
+        : escaped;
+    });
+  };
+
+  let last = 0;
+  const matches =
+    grammar === plainText ? [] : code.matchAll(createPattern(grammar));
+  for (const match of matches) {
+    const { index, groups = {} } = match;
+    const [text] = match;
+    add(code.slice(last, index));
+    last = index + text.length;
+
+    if (groups.comment) add(text, 'comment');
+    else if (groups.string) add(text, 'string');
+    else if (groups.tag) add(text, 'tag');
+    else if (groups.number) add(text, 'number');
+    else if (
+      grammar.keywords.has(grammar.ignoreCase ? text.toLowerCase() : text)
+    )
+      add(text, 'keyword');
+    else add(text);
+  }
+  add(code.slice(last));
+
+  // The line break at the end of the file does not start another line.
+  if (lines.length > 1 && lines.at(-1) === '') lines.pop();
+  return lines;
+};
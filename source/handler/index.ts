@@ -4,41 +4,75 @@
 import { promisify } from 'node:util';
 import path from 'node:path';
 import { createHash } from 'node:crypto';
-import {
-  realpath,
-  lstat,
-  createReadStream,
-  readdir,
-  createWriteStream,
-  access,
-} from 'node:fs';
+import { realpath, lstat, createReadStream, readdir } from 'node:fs';
 import url from 'node:url';
-import { minimatch } from 'minimatch';
-import { pathToRegexp, compile } from 'path-to-regexp';
+import { compile } from 'path-to-regexp';
 import mime from 'mime-types';
 import bytes from 'bytes';
 import contentDisposition from 'content-disposition';
 import isPathInside from 'path-is-inside';
 import parseRange from 'range-parser';
 import { logger } from '../utilities/logger.js';
+import { mapWithLimit } from '../utilities/promise.js';
 import { slasher } from './glob-slash.js';
+import { canBeListed, getExcluded, sourceMatches } from './matchers.js';
 import { directoryTemplate, errorTemplate } from './templates.js';
+import { handleUpload } from './upload.js';
+import { handleResumableUpload, resumablePath } from './resumable.js';
+import { sendJSON } from './response.js';
+import { handleWebDAV, webdavMethods } from './webdav.js';
+import { fileActionPaths, handleFileAction } from './files.js';
+import { handlePutUpload } from './put.js';
+import { handleBoard, isBoardPath } from './board.js';
+import { handleSearch, searchPath } from './search.js';
+import { handleThumbnail, thumbnailPath } from './thumbnails.js';
+import { getPreviewKind, handlePreview } from './preview.js';
+import { findReadme } from './readme.js';
+import { isStatePath } from './state.js';
+import {
+  archivePath,
+  getArchiveFormat,
+  handleArchive,
+  handleSelectionArchive,
+} from './archive.js';
+import {
+  defaultPageSize,
+  describeEntry,
+  getListingOptions,
+  getPageOptions,
+  listingVersion,
+  matchesFilter,
+  paginate,
+  sortEntries,
+  statConcurrency,
+  wantsVersionedListing,
+} from './listing.js';
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import type { Stats, ReadStream } from 'node:fs';
+import type { Dirent, Stats, ReadStream } from 'node:fs';
+import type { UploadConfig } from './upload.js';
+import type { BoardConfig } from './board.js';
+import type { ListingOptions, PageOptions } from './listing.js';
+
+// The methods that are still accepted when the server is read-only.
+const readMethods = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Checks whether a path belongs to one of the endpoints the listing itself
+ * uses, which are handled before WebDAV, as some of them accept the same
+ * methods.
+ */
+const isInternalPath = (pathname: string): boolean =>
+  pathname === '/__upload' ||
+  pathname.startsWith(resumablePath) ||
+  pathname === archivePath ||
+  pathname === searchPath ||
+  pathname === thumbnailPath ||
+  fileActionPaths.includes(pathname) ||
+  isBoardPath(pathname);
 
 const lstatAsync = promisify(lstat);
 const realpathAsync = promisify(realpath);
 const readdirAsync = promisify(readdir);
-const accessAsync = promisify(access);
-
-interface Key {
-  name: string;
-}
-
-interface SourceMatch {
-  keys: Key[];
-  results: RegExpExecArray | null;
-}
 
 interface Rewrite {
   source: string;
@@ -68,6 +102,11 @@ export interface HandlerConfig {
   renderSingle?: boolean;
   etag?: boolean;
   symlinks?: boolean;
+  readOnly?: boolean;
+  webdav?: boolean;
+  readme?: boolean;
+  uploads?: UploadConfig;
+  board?: BoardConfig;
 }
 
 interface FileDetails {
@@ -77,6 +116,14 @@ interface FileDetails {
   title: string;
   ext: string;
   size?: string;
+  preview?: boolean;
+}
+
+// An entry of a directory being listed, which is stat-ed once it is needed.
+interface DirectoryEntry {
+  file: string;
+  details: FileDetails;
+  stats?: Stats;
 }
 
 interface ErrorSpec {
@@ -93,7 +140,7 @@ interface Handlers {
     path: string,
     options?: { start?: number; end?: number },
   ) => ReadStream;
-  readdir: (path: string) => Promise<string[]>;
+  readdir: (path: string) => Promise<Dirent[]>;
   sendError: (
     absolutePath: string,
     response: ServerResponse,
@@ -107,9 +154,6 @@ interface Handlers {
 
 const etags = new Map<string, [Date, string]>();
 
-// In-memory shared text board (resets on server restart)
-let sharedBoard = '';
-
 const calculateSha = (
   handlers: Handlers,
   absolutePath: string,
@@ -127,35 +171,6 @@ const calculateSha = (
     });
   });
 
-const sourceMatches = (
-  source: string,
-  requestPath: string,
-  allowSegments?: boolean,
-): SourceMatch | null => {
-  const keys: Key[] = [];
-  const slashed = slasher(source);
-  const resolvedPath = path.posix.resolve(requestPath);
-
-  let results: RegExpExecArray | null = null;
-
-  if (allowSegments) {
-    const normalized = slashed.replace('*', '(.*)');
-    const expression = pathToRegexp(normalized);
-
-    results = expression.exec(resolvedPath);
-
-    if (!results) {
-      keys.length = 0;
-    }
-  }
-
-  if (results || minimatch(resolvedPath, slashed)) {
-    return { keys, results };
-  }
-
-  return null;
-};
-
 const toTarget = (
   source: string,
   destination: string,
@@ -393,24 +408,15 @@ const findRelated = async (
   return null;
 };
 
-const canBeListed = (excluded: string[], file: string): boolean => {
-  const slashed = slasher(file);
-
-  for (const source of excluded) {
-    if (sourceMatches(source, slashed)) {
-      return false;
-    }
-  }
-
-  return true;
-};
-
 const renderDirectory = async (
   current: string,
   acceptsJSON: boolean | null,
   handlers: Handlers,
   config: HandlerConfig,
   paths: { relativePath: string; absolutePath: string },
+  listing: ListingOptions,
+  pageOptions: PageOptions,
+  versioned: boolean,
 ): Promise<{
   directory?: string;
   singleFile?: boolean;
@@ -430,34 +436,31 @@ const renderDirectory = async (
   const slashSuffix = getSlashSuffix();
   const { relativePath, absolutePath } = paths;
 
-  const excluded = ['.DS_Store', '.git', ...unlisted];
+  const excluded = getExcluded(unlisted);
 
   if (!applicable(relativePath, directoryListing) && !renderSingle) {
     return {};
   }
 
-  const fileNames = await handlers.readdir(absolutePath);
-  const canRenderSingle = renderSingle && fileNames.length === 1;
-
-  const filePaths = fileNames.map((file) => ({
-    file,
-    filePath: path.resolve(absolutePath, file),
-  }));
-
-  const statsResults = await Promise.all(
-    filePaths.map(async ({ filePath }) => handlers.lstat(filePath)),
-  );
+  const dirents = await handlers.readdir(absolutePath);
 
-  const files: FileDetails[] = [];
+  const [only] = dirents;
+  if (renderSingle && dirents.length === 1 && only && !only.isDirectory()) {
+    const filePath = path.resolve(absolutePath, only.name);
+    const stats = await handlers.lstat(filePath);
+    return { singleFile: true, absolutePath: filePath, stats };
+  }
 
-  for (let i = 0; i < filePaths.length; i++) {
-    const fileData = filePaths[i];
-    const stats = statsResults[i];
-    if (!fileData || !stats) continue;
+  // Whether an entry is a folder is known without stat-ing it, so only the
+  // entries that are sent are stat-ed when sorting by name.
+  const entries: DirectoryEntry[] = [];
 
-    const { file, filePath } = fileData;
-    const details = path.parse(filePath);
+  for (const dirent of dirents) {
+    const file = dirent.name;
+    if (!canBeListed(excluded, file) || !matchesFilter(file, listing.filter))
+      continue;
 
+    const details = path.parse(file);
     const fileEntry: FileDetails = {
       type: 'file',
       base: details.base,
@@ -466,41 +469,89 @@ const renderDirectory = async (
       ext: '',
     };
 
-    if (stats.isDirectory()) {
+    if (dirent.isDirectory()) {
       fileEntry.base += slashSuffix;
       fileEntry.relative += slashSuffix;
       fileEntry.type = 'folder';
     } else {
-      if (canRenderSingle) {
-        return { singleFile: true, absolutePath: filePath, stats };
-      }
-
       fileEntry.ext = details.ext.split('.')[1] ?? 'txt';
-      fileEntry.type = 'file';
-      fileEntry.size = bytes(stats.size, {
-        unitSeparator: ' ',
-        decimalPlaces: 0,
-      });
+      fileEntry.preview = getPreviewKind(file) !== null;
     }
 
-    if (canBeListed(excluded, file)) {
-      files.push(fileEntry);
-    }
+    entries.push({ file, details: fileEntry });
   }
 
+  // Stats the entries that have not been yet, a few at a time, so huge
+  // directories do not use up the file descriptors.
+  const withStats = async (
+    list: DirectoryEntry[],
+  ): Promise<Required<DirectoryEntry>[]> =>
+    mapWithLimit(list, statConcurrency, async (entry) => ({
+      ...entry,
+      stats:
+        entry.stats ??
+        (await handlers.lstat(path.join(absolutePath, entry.file))),
+    }));
+
+  const sorted = sortEntries(
+    listing.sort === 'name' ? entries : await withStats(entries),
+    listing,
+  );
+  const page = paginate(
+    sorted,
+    listing,
+    acceptsJSON
+      ? pageOptions
+      : { ...pageOptions, limit: pageOptions.limit ?? defaultPageSize },
+  );
+  const pageEntries = await withStats(page.entries);
+
   const toRoot = path.relative(current, absolutePath);
   const directory = path.join(path.basename(current), toRoot, slashSuffix);
   const pathParts = directory.split(path.sep).filter(Boolean);
 
-  const sortedFiles = files.sort((a, b) => {
-    const aIsDir = a.type === 'folder' || a.type === 'directory';
-    const bIsDir = b.type === 'folder' || b.type === 'directory';
+  // Scripts that ask for the versioned listing get the exact sizes and times
+  // instead of the ones meant for people, along with how many entries each
+  // folder contains.
+  if (acceptsJSON && versioned) {
+    const countChildren = async (folder: string): Promise<number | null> =>
+      handlers.readdir(folder).then(
+        (children) =>
+          children.filter(({ name }) => canBeListed(excluded, name)).length,
+        () => null,
+      );
+
+    const described = await mapWithLimit(
+      pageEntries,
+      statConcurrency,
+      async ({ file, details, stats }) =>
+        describeEntry(
+          { name: file, path: details.relative, stats },
+          stats.isDirectory()
+            ? await countChildren(path.join(absolutePath, file))
+            : null,
+        ),
+    );
+
+    return {
+      directory: JSON.stringify({
+        version: listingVersion,
+        path: relativePath,
+        entries: described,
+        total: page.total,
+        nextCursor: page.nextCursor,
+      }),
+    };
+  }
+
+  const sortedFiles = pageEntries.map(({ details, stats }) => {
+    if (details.type === 'file')
+      details.size = bytes(stats.size, {
+        unitSeparator: ' ',
+        decimalPlaces: 0,
+      });
 
-    if (aIsDir && !bIsDir) return -1;
-    if (bIsDir && !aIsDir) return 1;
-    if (a.base > b.base) return 1;
-    if (a.base < b.base) return -1;
-    return 0;
+    return details;
   });
 
   if (toRoot.length > 0) {
@@ -538,8 +589,37 @@ const renderDirectory = async (
     });
   }
 
-  const spec = { files: sortedFiles, directory, paths: subPaths };
-  const output = acceptsJSON ? JSON.stringify(spec) : directoryTemplate(spec);
+  if (acceptsJSON)
+    return {
+      directory: JSON.stringify({
+        files: sortedFiles,
+        directory,
+        paths: subPaths,
+      }),
+    };
+
+  // The link to the next page keeps the sorting, filter and page size.
+  let nextPage: string | undefined;
+  if (page.nextCursor) {
+    const query = new URLSearchParams({
+      sort: listing.sort,
+      order: listing.order,
+    });
+    if (listing.filter) query.set('filter', listing.filter);
+    if (pageOptions.limit) query.set('limit', String(pageOptions.limit));
+    query.set('cursor', page.nextCursor);
+    nextPage = `?${query.toString()}`;
+  }
+
+  const output = directoryTemplate({
+    files: sortedFiles,
+    directory,
+    paths: subPaths,
+    listing,
+    nextPage,
+    readme: await findReadme(absolutePath, dirents, config),
+    readOnly: config.readOnly,
+  });
 
   return { directory: output };
 };
@@ -639,180 +719,152 @@ const getHandlers = (): Handlers => ({
   lstat: (filePath: string) => lstatAsync(filePath),
   realpath: realpathAsync,
   createReadStream,
-  readdir: readdirAsync as (path: string) => Promise<string[]>,
+  readdir: async (directory: string) =>
+    readdirAsync(directory, { withFileTypes: true }),
   sendError,
 });
 
-interface ParsedFilePart {
-  filename: string;
-  filePath: string;
-  body: string;
-}
-
-const extractFilePart = (
-  part: string,
-  current: string,
-): ParsedFilePart | null => {
-  const headerEnd = part.indexOf('\r\n\r\n');
-  if (headerEnd === -1) return null;
-
-  const headers = part.slice(0, headerEnd);
-  const filenameMatch = /filename="(?<filenameValue>[^"]+)"/.exec(headers);
-
-  if (!filenameMatch?.groups?.filenameValue) return null;
-
-  const filename = filenameMatch.groups.filenameValue;
-  const filePath = path.join(current, filename);
+export const handler = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  config: HandlerConfig = {},
+): Promise<void> => {
+  const cwd = process.cwd();
+  const current = config.public ? path.resolve(cwd, config.public) : cwd;
+  const handlers = getHandlers();
 
-  if (!isPathInside(filePath, current)) return null;
+  let relativePath: string | null = null;
+  let acceptsJSON: boolean | null = null;
 
-  const bodyStart = headerEnd + 4;
-  const bodyEnd = part.lastIndexOf('\r\n');
-  const body = part.slice(bodyStart, bodyEnd);
+  if (request.headers.accept) {
+    acceptsJSON = request.headers.accept.includes('application/json');
+  }
 
-  return { filename, filePath, body };
-};
+  const { pathname, query } = url.parse(request.url ?? '/', true);
 
-const writeFilePart = (
-  filePart: ParsedFilePart,
-): Promise<{ success: boolean; error?: string; filename?: string }> =>
-  new Promise((resolve) => {
-    const writeStream = createWriteStream(filePart.filePath, {
-      encoding: 'binary',
-    });
-    writeStream.write(filePart.body, 'binary');
-    writeStream.end();
-    writeStream.on('finish', () =>
-      resolve({ success: true, filename: filePart.filename }),
-    );
-    writeStream.on('error', (err) =>
-      resolve({ success: false, error: err.message }),
-    );
-  });
+  const uploadDirectory = typeof query.path === 'string' ? query.path : '/';
 
-const parseMultipart = async (
-  request: IncomingMessage,
-  current: string,
-): Promise<{ success: boolean; error?: string; filename?: string }> => {
-  const contentType = request.headers['content-type'] ?? '';
-  const boundaryMatch = /boundary=(?<boundaryValue>.+)$/.exec(contentType);
+  // Refuse anything that would change the served files or the board.
+  if (config.readOnly) {
+    const isWriteRoute =
+      request.method === 'PUT' ||
+      pathname === '/__upload' ||
+      pathname?.startsWith(resumablePath) ||
+      fileActionPaths.includes(pathname ?? '') ||
+      (isBoardPath(pathname ?? '') && request.method !== 'GET');
 
-  if (!boundaryMatch?.groups?.boundaryValue) {
-    return { success: false, error: 'Invalid content type' };
+    if (isWriteRoute) {
+      sendJSON(response, 403, {
+        success: false,
+        error: 'The server is read-only',
+      });
+      return;
+    }
   }
 
-  const boundary = boundaryMatch.groups.boundaryValue;
-  const chunks: Buffer[] = [];
+  // Handle raw file upload, unless WebDAV takes care of it. Paths starting
+  // with `/__` are left to the endpoints of the listing either way.
+  if (request.method === 'PUT') {
+    let putPath: string;
+    try {
+      putPath = decodeURIComponent(pathname ?? '/');
+    } catch {
+      response.setHeader('Connection', 'close');
+      sendJSON(response, 400, { success: false, error: 'Invalid path' });
+      return;
+    }
 
-  for await (const chunk of request) {
-    chunks.push(chunk as Buffer);
+    if (putPath.startsWith('/__')) {
+      response.setHeader('Connection', 'close');
+      sendJSON(response, 403, {
+        success: false,
+        error: 'The path is reserved',
+      });
+      return;
+    }
+    if (!config.webdav) {
+      return handlePutUpload(
+        request,
+        response,
+        current,
+        putPath,
+        config.uploads,
+      );
+    }
   }
 
-  const buffer = Buffer.concat(chunks);
-  const content = buffer.toString('binary');
-
-  const parts = content.split(`--${boundary}`);
-  const fileParts = parts
-    .map((part) => extractFilePart(part, current))
-    .filter((part): part is ParsedFilePart => part !== null);
-
-  if (fileParts.length === 0) {
-    return { success: false, error: 'No file found in request' };
+  // Handle WebDAV, which refuses writing by itself when read-only
+  if (
+    config.webdav &&
+    webdavMethods.includes(request.method ?? 'GET') &&
+    !isInternalPath(pathname ?? '/')
+  ) {
+    return handleWebDAV(request, response, current, pathname ?? '/', config);
   }
 
-  const filePart = fileParts[0];
-  if (!filePart) {
-    return { success: false, error: 'No file found in request' };
+  // Downloading chosen files as an archive only reads them, even though the
+  // files are sent in the body of a `POST` request.
+  if (pathname === archivePath) {
+    return handleSelectionArchive(request, response, current, config);
   }
 
-  try {
-    await accessAsync(filePart.filePath);
-    return {
+  if (config.readOnly && !readMethods.includes(request.method ?? 'GET')) {
+    response.setHeader('Allow', readMethods.join(', '));
+    sendJSON(response, 405, {
       success: false,
-      error: `File "${filePart.filename}" already exists`,
-    };
-  } catch {
-    // File doesn't exist, we can continue
+      error: 'Method not allowed',
+    });
+    return;
   }
 
-  return writeFilePart(filePart);
-};
-
-export const handler = async (
-  request: IncomingMessage,
-  response: ServerResponse,
-  config: HandlerConfig = {},
-): Promise<void> => {
-  const cwd = process.cwd();
-  const current = config.public ? path.resolve(cwd, config.public) : cwd;
-  const handlers = getHandlers();
+  // Handle file upload
+  if (request.method === 'POST' && pathname === '/__upload') {
+    return handleUpload(
+      request,
+      response,
+      current,
+      uploadDirectory,
+      config.uploads,
+    );
+  }
 
-  let relativePath: string | null = null;
-  let acceptsJSON: boolean | null = null;
+  // Handle resumable file upload
+  if (pathname?.startsWith(resumablePath)) {
+    return handleResumableUpload(
+      request,
+      response,
+      current,
+      pathname,
+      uploadDirectory,
+      config.uploads,
+    );
+  }
 
-  if (request.headers.accept) {
-    acceptsJSON = request.headers.accept.includes('application/json');
+  // Handle file management
+  if (pathname && fileActionPaths.includes(pathname)) {
+    return handleFileAction(request, response, current, pathname, config);
   }
 
-  // Handle file upload
-  if (request.method === 'POST' && request.url === '/__upload') {
-    const result = await parseMultipart(request, current);
-
-    response.setHeader('Content-Type', 'application/json');
-    if (result.success) {
-      response.statusCode = 200;
-      response.end(
-        JSON.stringify({ success: true, filename: result.filename }),
-      );
-    } else {
-      response.statusCode = 400;
-      response.end(JSON.stringify({ success: false, error: result.error }));
-    }
-    return;
+  // Handle shared boards
+  if (pathname && isBoardPath(pathname)) {
+    const board = config.readOnly
+      ? { ...config.board, readOnly: true }
+      : config.board;
+    return handleBoard(request, response, current, pathname, board);
   }
 
-  // Handle shared board - GET
-  if (request.method === 'GET' && request.url === '/__board') {
-    response.setHeader('Content-Type', 'application/json');
-    response.statusCode = 200;
-    response.end(JSON.stringify({ content: sharedBoard }));
-    return;
+  // Handle searching for files by name
+  if (pathname === searchPath) {
+    return handleSearch(request, response, current, query, config);
   }
 
-  // Handle shared board - POST
-  if (request.method === 'POST' && request.url === '/__board') {
-    const chunks: Buffer[] = [];
-    for await (const chunk of request) {
-      chunks.push(chunk as Buffer);
-    }
-    try {
-      const body = JSON.parse(Buffer.concat(chunks).toString('utf-8')) as {
-        content?: string;
-      };
-      if (typeof body.content === 'string') {
-        sharedBoard = body.content;
-        response.setHeader('Content-Type', 'application/json');
-        response.statusCode = 200;
-        response.end(JSON.stringify({ success: true }));
-      } else {
-        response.setHeader('Content-Type', 'application/json');
-        response.statusCode = 400;
-        response.end(
-          JSON.stringify({ success: false, error: 'Invalid content' }),
-        );
-      }
-    } catch {
-      response.setHeader('Content-Type', 'application/json');
-      response.statusCode = 400;
-      response.end(JSON.stringify({ success: false, error: 'Invalid JSON' }));
-    }
-    return;
+  // Handle thumbnails of images
+  if (pathname === thumbnailPath) {
+    return handleThumbnail(request, response, current, query, config);
   }
 
   try {
-    relativePath = decodeURIComponent(
-      url.parse(request.url ?? '/').pathname ?? '/',
-    );
+    relativePath = decodeURIComponent(pathname ?? '/');
   } catch {
     return sendError('/', response, acceptsJSON, current, handlers, config, {
       statusCode: 400,
@@ -839,6 +891,24 @@ export const handler = async (
     );
   }
 
+  // The state directory holds partial uploads, old versions of files and the
+  // boards, which are never served, as if they did not exist.
+  if (isStatePath(current, absolutePath)) {
+    return sendError(
+      absolutePath,
+      response,
+      acceptsJSON,
+      current,
+      handlers,
+      config,
+      {
+        statusCode: 404,
+        code: 'not_found',
+        message: 'The requested path could not be found',
+      },
+    );
+  }
+
   const cleanUrl = applicable(relativePath, config.cleanUrls);
   const redirect = shouldRedirect(relativePath, config, cleanUrl);
 
@@ -921,6 +991,23 @@ export const handler = async (
     }
   }
 
+  // Folders that can be listed can also be downloaded as archives.
+  const archiveFormat = getArchiveFormat(query);
+  if (
+    stats?.isDirectory() &&
+    archiveFormat &&
+    applicable(relativePath, config.directoryListing)
+  ) {
+    return handleArchive(
+      request,
+      response,
+      current,
+      relativePath,
+      archiveFormat,
+      config,
+    );
+  }
+
   if (stats?.isDirectory()) {
     try {
       const related = await renderDirectory(
@@ -929,6 +1016,9 @@ export const handler = async (
         handlers,
         config,
         { relativePath, absolutePath },
+        getListingOptions(query),
+        getPageOptions(query),
+        wantsVersionedListing(query),
       );
 
       if (related.singleFile && related.absolutePath && related.stats) {
@@ -964,7 +1054,12 @@ export const handler = async (
 
   const isSymLink = stats?.isSymbolicLink();
 
-  if (!stats || (!config.symlinks && isSymLink)) {
+  // Rewrites can lead into the state directory too.
+  if (
+    !stats ||
+    (!config.symlinks && isSymLink) ||
+    isStatePath(current, absolutePath)
+  ) {
     return handlers.sendError(
       absolutePath,
       response,
@@ -1004,6 +1099,36 @@ export const handler = async (
       );
     }
     stats = await handlers.lstat(absolutePath);
+
+    // Symlinks cannot lead into the state directory either.
+    if (isStatePath(current, absolutePath)) {
+      return handlers.sendError(
+        absolutePath,
+        response,
+        acceptsJSON,
+        current,
+        handlers,
+        config,
+        {
+          statusCode: 404,
+          code: 'not_found',
+          message: 'The requested path could not be found',
+        },
+      );
+    }
+  }
+
+  // Files can be shown on a preview page instead of being sent as they are.
+  if (query.preview !== undefined && stats.isFile()) {
+    return handlePreview(
+      request,
+      response,
+      current,
+      absolutePath,
+      relativePath,
+      stats,
+      config,
+    );
   }
 
   const streamOpts: { start?: number; end?: number } = {};
@@ -0,0 +1,294 @@
+// source/handler/listing.ts
+// Sorting, filtering and paging of directory listings, with the `sort`,
+// `order`, `filter`, `limit` and `cursor` query parameters, and the entries of
+// listings sent as JSON.
+
+import mime from 'mime-types';
+import { minimatch } from 'minimatch';
+import type { Stats } from 'node:fs';
+import type { ParsedUrlQuery } from 'node:querystring';
+
+export type SortKey = 'name' | 'size' | 'mtime';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListingOptions {
+  sort: SortKey;
+  order: SortOrder;
+  // A glob the names of the listed files have to match, or text they have to
+  // contain. Empty to list every file.
+  filter: string;
+}
+
+// How much of a listing to send, and where to start.
+export interface PageOptions {
+  // How many entries to send, or `null` to send all of them.
+  limit: number | null;
+  // The cursor of the previous page, or `null` to start with the first entry.
+  cursor: string | null;
+}
+
+// An entry of a listing, along with what it is sorted by. Entries are only
+// stat-ed when they have to be, so entries without stats are sorted by name.
+export interface ListedEntry {
+  details: { type: string; base: string };
+  stats?: Pick<Stats, 'size' | 'mtimeMs'>;
+}
+
+// A page of a listing.
+export interface ListingPage<T> {
+  entries: T[];
+  // The cursor that leads to the next page, or `null` for the last one.
+  nextCursor: string | null;
+  // How many entries there are on all pages together.
+  total: number;
+}
+
+// The version of the JSON listing format. It is increased whenever the format
+// changes in a way that could break the clients reading it.
+export const listingVersion = 1;
+
+// An entry of a listing, as it is sent to clients that ask for JSON.
+export interface ListingEntry {
+  name: string;
+  // The path of the entry, from the root of the served directory.
+  path: string;
+  type: 'file' | 'folder';
+  // The size in bytes, or `null` for folders.
+  size: number | null;
+  // When the entry was last modified, as an ISO 8601 string.
+  mtime: string;
+  // The MIME type that fits the name, or `null` for folders and unknown
+  // types.
+  mimeType: string | null;
+  // Whether the entry is a symbolic link. Its size and modification time are
+  // those of the link itself.
+  symlink: boolean;
+  // How many entries a folder contains, or `null` if it cannot be read. Left
+  // out for files, and when the entries were not counted.
+  children?: number | null;
+}
+
+const sortKeys: SortKey[] = ['name', 'size', 'mtime'];
+const sortOrders: SortOrder[] = ['asc', 'desc'];
+
+// The longest filter that is accepted, as globs are compiled to expressions.
+const maxFilterLength = 200;
+
+// How many entries a page of a listing shown to people has by default, and
+// how many entries any page can have at most.
+export const defaultPageSize = 500;
+const maxPageSize = 5000;
+
+// How many entries of a directory are stat-ed at the same time.
+export const statConcurrency = 32;
+
+const getString = (value: string | string[] | undefined): string =>
+  typeof value === 'string' ? value : '';
+
+/**
+ * Reads how a listing should be sorted and filtered from the query of the
+ * request. Values that are not understood are left at their defaults: sorted
+ * by name in ascending order, without a filter.
+ *
+ * @param query - The parsed query of the request.
+ * @returns How to sort and filter the listing.
+ */
+export const getListingOptions = (query: ParsedUrlQuery): ListingOptions => {
+  const sort = getString(query.sort) as SortKey;
+  const order = getString(query.order) as SortOrder;
+  const filter = getString(query.filter).trim();
+
+  return {
+    sort: sortKeys.includes(sort) ? sort : 'name',
+    order: sortOrders.includes(order) ? order : 'asc',
+    filter: filter.length > maxFilterLength ? '' : filter,
+  };
+};
+
+/**
+ * Checks whether a file should be listed with the filter. A filter without
+ * any glob characters matches the names that contain it. Case is ignored.
+ *
+ * @param name - The name of the file.
+ * @param filter - The filter from the listing options.
+ * @returns Whether the file should be listed.
+ */
+export const matchesFilter = (name: string, filter: string): boolean => {
+  if (!filter) return true;
+
+  const pattern = /[*?[]/.test(filter) ? filter : `*${filter}*`;
+  return minimatch(name, pattern, { nocase: true, dot: true });
+};
+
+/**
+ * Checks whether the versioned JSON listing was asked for, with the `version`
+ * query parameter. Clients that do not ask for it get the format from before
+ * listings had a version, so existing scripts keep working.
+ *
+ * @param query - The parsed query of the request.
+ * @returns Whether to send the versioned listing.
+ */
+export const wantsVersionedListing = (query: ParsedUrlQuery): boolean =>
+  getString(query.version) === String(listingVersion);
+
+/**
+ * Reads which page of a listing should be sent from the query of the request.
+ * Limits that are not understood are ignored, and larger ones are lowered to
+ * the largest page allowed.
+ *
+ * @param query - The parsed query of the request.
+ * @returns How much of the listing to send.
+ */
+export const getPageOptions = (query: ParsedUrlQuery): PageOptions => {
+  const limit = Number.parseInt(getString(query.limit), 10);
+  const cursor = getString(query.cursor);
+
+  return {
+    limit: limit > 0 ? Math.min(limit, maxPageSize) : null,
+    cursor: cursor || null,
+  };
+};
+
+const isFolder = ({ details }: ListedEntry): boolean =>
+  details.type === 'folder' || details.type === 'directory';
+
+const compareNames = (a: ListedEntry, b: ListedEntry): number => {
+  if (a.details.base > b.details.base) return 1;
+  if (a.details.base < b.details.base) return -1;
+  return 0;
+};
+
+// Returns the value an entry is sorted by, other than its name.
+const sortValue = ({ stats }: ListedEntry, sort: SortKey): number => {
+  if (sort === 'size') return stats?.size ?? 0;
+  if (sort === 'mtime') return stats?.mtimeMs ?? 0;
+  return 0;
+};
+
+const compareEntries = (
+  a: ListedEntry,
+  b: ListedEntry,
+  { sort, order }: ListingOptions,
+): number => {
+  const aIsFolder = isFolder(a);
+  const bIsFolder = isFolder(b);
+  if (aIsFolder && !bIsFolder) return -1;
+  if (bIsFolder && !aIsFolder) return 1;
+
+  let result = 0;
+  if (sort === 'mtime' || !aIsFolder)
+    result = sortValue(a, sort) - sortValue(b, sort);
+  if (result === 0) result = compareNames(a, b);
+
+  return order === 'desc' ? -result : result;
+};
+
+/**
+ * Sorts the entries of a listing. Folders always come before files, and
+ * entries that are equal otherwise are sorted by name. Folders are sorted by
+ * name when sorting by size, as they have no size of their own.
+ *
+ * @param entries - The entries to sort, which are sorted in place.
+ * @param options - How to sort the entries.
+ * @returns The sorted entries.
+ */
+export const sortEntries = <T extends ListedEntry>(
+  entries: T[],
+  options: ListingOptions,
+): T[] => entries.sort((a, b) => compareEntries(a, b, options));
+
+// Cursors hold where the last entry of a page was sorted: whether it is a
+// folder, its name, and the value it was sorted by. Later pages start after
+// that place, so entries that are added or removed in the meantime do not
+// make the pages skip or repeat entries.
+const encodeCursor = (entry: ListedEntry, sort: SortKey): string =>
+  Buffer.from(
+    JSON.stringify([
+      isFolder(entry) ? 1 : 0,
+      entry.details.base,
+      sortValue(entry, sort),
+    ]),
+  ).toString('base64url');
+
+// Turns a cursor back into an entry that sorts at the same place, or returns
+// `null` if the cursor was not created here.
+const decodeCursor = (cursor: string): ListedEntry | null => {
+  try {
+    const value: unknown = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString(),
+    );
+    if (!Array.isArray(value)) return null;
+
+    const [folder, base, sortedBy] = value as unknown[];
+    if (typeof base !== 'string' || typeof sortedBy !== 'number') return null;
+
+    return {
+      details: { type: folder === 1 ? 'folder' : 'file', base },
+      stats: { size: sortedBy, mtimeMs: sortedBy },
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Picks a page from the sorted entries of a listing. A cursor that was not
+ * created here is ignored, so the first page is sent instead.
+ *
+ * @param entries - The sorted entries of the listing.
+ * @param options - How the entries are sorted.
+ * @param page - Which page to pick.
+ * @returns The entries on the page, and the cursor of the next one.
+ */
+export const paginate = <T extends ListedEntry>(
+  entries: T[],
+  options: ListingOptions,
+  { limit, cursor }: PageOptions,
+): ListingPage<T> => {
+  const after = cursor ? decodeCursor(cursor) : null;
+
+  let start = 0;
+  if (after) {
+    start = entries.findIndex(
+      (entry) => compareEntries(entry, after, options) > 0,
+    );
+    if (start === -1) start = entries.length;
+  }
+
+  const end = limit === null ? entries.length : start + limit;
+  const pageEntries = entries.slice(start, end);
+  const last = pageEntries[pageEntries.length - 1];
+
+  return {
+    entries: pageEntries,
+    nextCursor:
+      last && end < entries.length ? encodeCursor(last, options.sort) : null,
+    total: entries.length,
+  };
+};
+
+/**
+ * Describes an entry of a listing for clients that ask for JSON.
+ *
+ * @param entry - The name, path and stats of the entry.
+ * @param children - How many entries a folder contains, if they were counted.
+ * @returns The entry, with exact sizes and times.
+ */
+export const describeEntry = (
+  { name, path, stats }: { name: string; path: string; stats: Stats },
+  children?: number | null,
+): ListingEntry => {
+  const isDirectory = stats.isDirectory();
+  const entry: ListingEntry = {
+    name,
+    path,
+    type: isDirectory ? 'folder' : 'file',
+    size: isDirectory ? null : stats.size,
+    mtime: stats.mtime.toISOString(),
+    mimeType: isDirectory ? null : mime.lookup(name) || null,
+    symlink: stats.isSymbolicLink(),
+  };
+  if (isDirectory && children !== undefined) entry.children = children;
+
+  return entry;
+};
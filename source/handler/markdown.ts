@@ -0,0 +1,238 @@
+// source/handler/markdown.ts
+// Renders Markdown to HTML for the shared board, the preview pages and the
+// README files shown below listings. Every piece of the text is escaped, and
+// only the elements created here end up in the output, so the result is safe
+// to show even when the text contains HTML.
+
+// The schemes allowed in links and images. Anything else, like
+// `javascript:`, is shown as plain text.
+const safeSchemes = new Set(['http:', 'https:', 'mailto:']);
+
+// The elements that can appear within a line of text, tried in this order.
+// Their length is limited, so a long line without closing markers does not
+// take ages to render.
+const inlinePattern = new RegExp(
+  [
+    '(?<code>`+)(?<codeText>.{1,1000}?)\\k<code>',
+    '!\\[(?<alt>[^\\]]{0,500})\\]\\((?<src>[^)\\s]{1,2000})\\)',
+    '\\[(?<label>[^\\]]{1,500})\\]\\((?<href>[^)\\s]{1,2000})\\)',
+    '(?<url>https?:\\/\\/[^\\s<]{0,2000}[^\\s<.,;:!?)\\]\'"])',
+    '(?<strong>\\*\\*|__)(?<strongText>.{1,500}?)\\k<strong>',
+    '~~(?<deleted>.{1,500}?)~~',
+    '(?<![\\w*])\\*(?<emphasis>[^*\\s](?:[^*]{0,500}[^*\\s])?)\\*(?![\\w*])',
+    '(?<!\\w)_(?<underscored>[^_\\s](?:[^_]{0,500}[^_\\s])?)_(?!\\w)',
+  ].join('|'),
+  'gu',
+);
+
+const fencePattern = /^(?<fence>`{3,}|~{3,})\s*(?<language>[\w+-]*)\s*$/;
+const headingPattern = /^(?<level>#{1,6})\s+(?<text>.*?)\s*#*\s*$/;
+const rulePattern = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+const quotePattern = /^\s{0,3}>\s?(?<text>.*)$/;
+const listPattern = /^\s*(?<marker>[-*+]|\d{1,9}[.)])\s+(?<text>.*)$/;
+const taskPattern = /^\[(?<checked>[ xX])\]\s+(?<text>.*)$/;
+
+// How deeply quotes can be nested. Deeper quotes are shown as text, as every
+// level is rendered by another call.
+const maxQuoteDepth = 32;
+
+const htmlEntities: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escapes the characters that have a meaning in HTML, so text can be put in
+ * an element or an attribute.
+ */
+export const escapeHTML = (text: string): string =>
+  text.replace(/[&<>"']/g, (character) => htmlEntities[character] ?? character);
+
+/**
+ * Checks whether a link may be followed: it has to be relative, or use one
+ * of the safe schemes.
+ */
+const isSafeUrl = (url: string): boolean => {
+  const scheme = /^(?<scheme>[a-z][\d+.a-z-]*:)/i.exec(url)?.groups?.scheme;
+  return !scheme || safeSchemes.has(scheme.toLowerCase());
+};
+
+const renderLink = (href: string, label: string): string =>
+  `<a href="${escapeHTML(
+    href,
+  )}" target="_blank" rel="noopener noreferrer">${label}</a>`;
+
+/**
+ * Renders the elements within a line of text: code, images, links, and
+ * bold, italic and struck through text.
+ */
+const renderInline = (text: string): string => {
+  let html = '';
+  let index = 0;
+
+  for (const match of text.matchAll(inlinePattern)) {
+    const groups = match.groups ?? {};
+    html += escapeHTML(text.slice(index, match.index));
+    index = match.index + match[0].length;
+
+    if (groups.codeText !== undefined) {
+      html += `<code>${escapeHTML(groups.codeText.trim())}</code>`;
+    } else if (groups.src !== undefined) {
+      html += isSafeUrl(groups.src)
+        ? `<img src="${escapeHTML(groups.src)}" alt="${escapeHTML(
+            groups.alt ?? '',
+          )}">`
+        : escapeHTML(match[0]);
+    } else if (groups.href !== undefined) {
+      html += isSafeUrl(groups.href)
+        ? renderLink(groups.href, renderInline(groups.label ?? ''))
+        : escapeHTML(match[0]);
+    } else if (groups.url !== undefined) {
+      html += renderLink(groups.url, escapeHTML(groups.url));
+    } else if (groups.strongText !== undefined) {
+      html += `<strong>${renderInline(groups.strongText)}</strong>`;
+    } else if (groups.deleted !== undefined) {
+      html += `<del>${renderInline(groups.deleted)}</del>`;
+    } else {
+      const emphasis = groups.emphasis ?? groups.underscored ?? '';
+      html += `<em>${renderInline(emphasis)}</em>`;
+    }
+  }
+
+  return html + escapeHTML(text.slice(index));
+};
+
+/**
+ * Renders the items of a list, with checkboxes for the items of a checklist.
+ */
+const renderList = (items: string[], ordered: boolean): string => {
+  const tag = ordered ? 'ol' : 'ul';
+  const rendered = items.map((item) => {
+    const task = taskPattern.exec(item)?.groups;
+    if (!task) return `<li>${renderInline(item)}</li>`;
+
+    const checked = task.checked === ' ' ? '' : ' checked';
+    return `<li class="task"><input type="checkbox" disabled${checked}> ${renderInline(
+      task.text ?? '',
+    )}</li>`;
+  });
+
+  return `<${tag}>${rendered.join('')}</${tag}>`;
+};
+
+/**
+ * Renders the blocks of Markdown that are quoted the given number of times.
+ */
+const renderBlocks = (markdown: string, depth: number): string => {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = (): void => {
+    if (paragraph.length > 0)
+      blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+    paragraph = [];
+  };
+
+  // Returns the line at an index, or an empty one past the end.
+  const lineAt = (index: number): string => lines[index] ?? '';
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lineAt(index);
+
+    const fence = fencePattern.exec(line)?.groups;
+    if (fence) {
+      endParagraph();
+      const closing = fence.fence ?? '```';
+      const code: string[] = [];
+      while (
+        index + 1 < lines.length &&
+        !lineAt(index + 1)
+          .trim()
+          .startsWith(closing)
+      )
+        code.push(lineAt(++index));
+      index++;
+
+      const language = fence.language
+        ? ` class="language-${escapeHTML(fence.language)}"`
+        : '';
+      blocks.push(
+        `<pre><code${language}>${escapeHTML(code.join('\n'))}</code></pre>`,
+      );
+      continue;
+    }
+
+    const heading = headingPattern.exec(line)?.groups;
+    if (heading) {
+      endParagraph();
+      const level = heading.level?.length ?? 1;
+      blocks.push(`<h${level}>${renderInline(heading.text ?? '')}</h${level}>`);
+      continue;
+    }
+
+    if (rulePattern.test(line)) {
+      endParagraph();
+      blocks.push('<hr>');
+      continue;
+    }
+
+    if (depth < maxQuoteDepth && quotePattern.test(line)) {
+      endParagraph();
+      const quoted: string[] = [];
+      for (; index < lines.length; index++) {
+        const text = quotePattern.exec(lineAt(index))?.groups?.text;
+        if (text === undefined) break;
+
+        quoted.push(text);
+      }
+      index--;
+
+      blocks.push(
+        `<blockquote>${renderBlocks(
+          quoted.join('\n'),
+          depth + 1,
+        )}</blockquote>`,
+      );
+      continue;
+    }
+
+    const item = listPattern.exec(line)?.groups;
+    if (item) {
+      endParagraph();
+      const ordered = /\d/.test(item.marker ?? '');
+      const items: string[] = [];
+      for (; index < lines.length; index++) {
+        const next = listPattern.exec(lineAt(index))?.groups;
+        if (!next || /\d/.test(next.marker ?? '') !== ordered) break;
+
+        items.push(next.text ?? '');
+      }
+      index--;
+
+      blocks.push(renderList(items, ordered));
+      continue;
+    }
+
+    if (line.trim() === '') endParagraph();
+    else paragraph.push(line);
+  }
+
+  endParagraph();
+  return blocks.join('\n');
+};
+
+/**
+ * Renders Markdown to HTML. Headings, paragraphs, fenced code blocks, quotes,
+ * lists, checklists and horizontal rules are supported, along with links,
+ * images, code, and bold, italic and struck through text within lines.
+ * Line breaks within paragraphs are kept.
+ *
+ * @param markdown - The text to render.
+ * @returns The HTML, which contains only the elements created here.
+ */
+export const renderMarkdown = (markdown: string): string =>
+  renderBlocks(markdown, 0);
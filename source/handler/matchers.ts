@@ -0,0 +1,108 @@
+// source/handler/matchers.ts
+// Match paths against the globs in the configuration.
+
+import path from 'node:path';
+import { minimatch } from 'minimatch';
+import { pathToRegexp } from 'path-to-regexp';
+import { slasher } from './glob-slash.js';
+import { stateDirectory } from './state.js';
+
+interface Key {
+  name: string;
+}
+
+export interface SourceMatch {
+  keys: Key[];
+  results: RegExpExecArray | null;
+}
+
+/**
+ * Matches a request path against a glob from the configuration. When segments
+ * are allowed, the source is also treated as a `path-to-regexp` pattern, and
+ * the matched segments are returned.
+ *
+ * @param source - The glob or pattern to match against.
+ * @param requestPath - The path to match.
+ * @param allowSegments - Whether the source may contain segments.
+ * @returns The matched segments, or `null` if the path does not match.
+ */
+export const sourceMatches = (
+  source: string,
+  requestPath: string,
+  allowSegments?: boolean,
+): SourceMatch | null => {
+  const keys: Key[] = [];
+  const slashed = slasher(source);
+  const resolvedPath = path.posix.resolve(requestPath);
+
+  let results: RegExpExecArray | null = null;
+
+  if (allowSegments) {
+    const normalized = slashed.replace('*', '(.*)');
+    const expression = pathToRegexp(normalized);
+
+    results = expression.exec(resolvedPath);
+
+    if (!results) {
+      keys.length = 0;
+    }
+  }
+
+  if (results || minimatch(resolvedPath, slashed)) {
+    return { keys, results };
+  }
+
+  return null;
+};
+
+/**
+ * Returns the globs of the files that are never shown in directory listings:
+ * the ones the server hides itself, and the ones the configuration asks for.
+ *
+ * @param unlisted - The globs from the `unlisted` option.
+ * @returns The globs of the files to hide.
+ */
+export const getExcluded = (unlisted: string[] = []): string[] => [
+  '.DS_Store',
+  '.git',
+  stateDirectory,
+  ...unlisted,
+];
+
+/**
+ * Checks whether a file may be shown in a directory listing.
+ *
+ * @param excluded - The globs of the files that should be hidden.
+ * @param file - The name of the file.
+ * @returns Whether the file does not match any of the globs.
+ */
+export const canBeListed = (excluded: string[], file: string): boolean => {
+  const slashed = slasher(file);
+
+  for (const source of excluded) {
+    if (sourceMatches(source, slashed)) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Checks whether the listing of a folder may be shown, which is what the
+ * `directoryListing` option decides.
+ *
+ * @param relativePath - The path of the folder, with a leading and a trailing
+ *                       slash.
+ * @param directoryListing - The value of the `directoryListing` option.
+ * @returns Whether the folder may be listed.
+ */
+export const isListable = (
+  relativePath: string,
+  directoryListing: boolean | string[] = true,
+): boolean => {
+  if (typeof directoryListing === 'boolean') return directoryListing;
+  return directoryListing.some((source) =>
+    Boolean(sourceMatches(source, relativePath)),
+  );
+};
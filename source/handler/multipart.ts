@@ -0,0 +1,180 @@
+// source/handler/multipart.ts
+// A streaming parser for `multipart/form-data` request bodies.
+
+import { Writable } from 'node:stream';
+
+export interface PartInfo {
+  name: string;
+  filename?: string;
+  contentType?: string;
+}
+
+// Receives the body of a single part as it is parsed. The parser waits for
+// every returned promise, so a slow sink applies backpressure to the request.
+export interface PartSink {
+  write: (chunk: Buffer) => Promise<void> | void;
+  end: () => Promise<void> | void;
+  abort: () => Promise<void> | void;
+}
+
+type ParserState = 'preamble' | 'boundary' | 'headers' | 'body' | 'done';
+
+// The headers of a single part should never be this large; anything bigger is
+// most likely not a multipart body at all.
+const maxHeaderSize = 16 * 1024;
+const headerTerminator = Buffer.from('\r\n\r\n');
+
+/**
+ * Extracts the boundary from the `Content-Type` header of a multipart request.
+ *
+ * @param contentType - The value of the `Content-Type` header.
+ * @returns The boundary, or `null` if the header does not contain one.
+ */
+export const getBoundary = (contentType: string): string | null => {
+  if (!contentType.toLowerCase().startsWith('multipart/form-data')) return null;
+
+  const match = /boundary=(?:"(?<quoted>[^"]+)"|(?<plain>[^;]+))/i.exec(
+    contentType,
+  );
+  const boundary = (match?.groups?.quoted ?? match?.groups?.plain)?.trim();
+
+  return boundary ? boundary : null;
+};
+
+const parsePartHeaders = (raw: string): PartInfo | null => {
+  const headers: Record<string, string> = {};
+
+  for (const line of raw.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    headers[key] = line.slice(separator + 1).trim();
+  }
+
+  const disposition = headers['content-disposition'] ?? '';
+  const name = /\bname="(?<value>[^"]*)"/.exec(disposition)?.groups?.value;
+  const filename = /\bfilename="(?<value>[^"]*)"/.exec(disposition)?.groups
+    ?.value;
+
+  if (name === undefined) return null;
+
+  return { name, filename, contentType: headers['content-type'] };
+};
+
+/**
+ * Creates a writable stream that parses a `multipart/form-data` body and hands
+ * the contents of each part to a sink as soon as it arrives, without ever
+ * holding more than a chunk of the body in memory.
+ *
+ * @param boundary - The boundary that separates the parts.
+ * @param onPart - Called with the headers of every part. Returns the sink the
+ *                 body of the part should be written to, or `null` to discard
+ *                 it.
+ * @returns The parser, which the request should be piped into.
+ */
+export const createMultipartParser = (
+  boundary: string,
+  onPart: (info: PartInfo) => Promise<PartSink | null> | PartSink | null,
+): Writable => {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+
+  // The first boundary is not preceded by a line break, so add one to be able
+  // to look for the same delimiter everywhere.
+  let buffer = Buffer.from('\r\n');
+  let state: ParserState = 'preamble';
+  let sink: PartSink | null = null;
+
+  // Consumes as much of the buffer as possible, leaving behind only the bytes
+  // that could be the start of a delimiter.
+  // The parts have to be handled in order, hence the `await`s in the loop.
+  const consume = async (): Promise<void> => {
+    for (;;) {
+      if (state === 'preamble') {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          buffer = buffer.subarray(
+            Math.max(0, buffer.length - delimiter.length + 1),
+          );
+          return;
+        }
+
+        buffer = buffer.subarray(index + delimiter.length);
+        state = 'boundary';
+      } else if (state === 'boundary') {
+        if (buffer.length < 2) return;
+
+        const suffix = buffer.toString('latin1', 0, 2);
+        if (suffix === '--') {
+          buffer = Buffer.alloc(0);
+          state = 'done';
+          return;
+        }
+        if (suffix !== '\r\n') throw new Error('Malformed multipart boundary');
+
+        buffer = buffer.subarray(2);
+        state = 'headers';
+      } else if (state === 'headers') {
+        const index = buffer.indexOf(headerTerminator);
+        if (index === -1) {
+          if (buffer.length > maxHeaderSize)
+            throw new Error('Multipart headers are too large');
+          return;
+        }
+
+        const info = parsePartHeaders(buffer.toString('utf8', 0, index));
+        if (!info) throw new Error('Malformed multipart headers');
+
+        buffer = buffer.subarray(index + headerTerminator.length);
+        state = 'body';
+        // eslint-disable-next-line no-await-in-loop
+        sink = await onPart(info);
+      } else if (state === 'body') {
+        const index = buffer.indexOf(delimiter);
+        const end = index === -1 ? buffer.length - delimiter.length + 1 : index;
+
+        // eslint-disable-next-line no-await-in-loop
+        if (end > 0 && sink) await sink.write(buffer.subarray(0, end));
+        if (index === -1) {
+          if (end > 0) buffer = buffer.subarray(end);
+          return;
+        }
+
+        buffer = buffer.subarray(index + delimiter.length);
+        state = 'boundary';
+
+        const finished = sink;
+        sink = null;
+        // eslint-disable-next-line no-await-in-loop
+        if (finished) await finished.end();
+      } else {
+        // Anything after the closing boundary is an epilogue, and is ignored.
+        return;
+      }
+    }
+  };
+
+  return new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+      consume().then(
+        () => callback(),
+        (error: Error) => callback(error),
+      );
+    },
+    final(callback) {
+      if (state === 'done') callback();
+      else callback(new Error('Unexpected end of multipart body'));
+    },
+    destroy(error, callback) {
+      // Let the sink of an unfinished part clean up after itself.
+      const pending = sink;
+      sink = null;
+
+      Promise.resolve(pending?.abort()).then(
+        () => callback(error),
+        () => callback(error),
+      );
+    },
+  });
+};
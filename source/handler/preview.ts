@@ -0,0 +1,212 @@
+// source/handler/preview.ts
+// Pages that show a file in the browser instead of sending it as it is,
+// opened by adding `?preview` to the path of the file. Markdown is rendered,
+// source code is highlighted with line numbers, images are shown with links
+// to the previous and next ones in their folder, and audio and video files
+// are played. Every page links to the file itself.
+
+import path from 'node:path';
+import { readFile, readdir } from 'node:fs/promises';
+import bytes from 'bytes';
+import mime from 'mime-types';
+import { logger } from '../utilities/logger.js';
+import { canBeListed, getExcluded } from './matchers.js';
+import { renderMarkdown } from './markdown.js';
+import { highlightCode, isHighlightable } from './highlight.js';
+import { previewTemplate } from './templates.js';
+import { sendJSON } from './response.js';
+import type { Dirent, Stats } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { PreviewView } from './templates.js';
+
+export interface PreviewConfig {
+  unlisted?: string[];
+  symlinks?: boolean;
+}
+
+export type PreviewKind = 'markdown' | 'code' | 'image' | 'audio' | 'video';
+
+const markdownExtensions = new Set(['.md', '.markdown']);
+
+// The largest text file that is previewed, as all of it is rendered at once.
+const maxTextSize = 1024 * 1024;
+
+/**
+ * Finds out how the file with the given name is previewed.
+ *
+ * @returns How the file is shown, or `null` if it cannot be previewed.
+ */
+export const getPreviewKind = (name: string): PreviewKind | null => {
+  if (markdownExtensions.has(path.extname(name).toLowerCase()))
+    return 'markdown';
+
+  const type = mime.lookup(name) || '';
+  if (type.startsWith('image/')) return 'image';
+  // Source code comes before audio and video, as `.ts` files are also
+  // taken for videos.
+  if (isHighlightable(name)) return 'code';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('text/')) return 'code';
+
+  return null;
+};
+
+/**
+ * Finds the images before and after the given one in its folder, sorted by
+ * name like the listing. Files that are not listed are skipped.
+ */
+const findNeighbours = async (
+  folder: string,
+  name: string,
+  config: PreviewConfig,
+): Promise<{ previous?: string; next?: string }> => {
+  const excluded = getExcluded(config.unlisted);
+  const dirents: Dirent[] = await readdir(folder, {
+    withFileTypes: true,
+  }).catch(() => []);
+
+  const images = dirents
+    .filter(
+      (dirent) =>
+        (dirent.isFile() || (config.symlinks && dirent.isSymbolicLink())) &&
+        canBeListed(excluded, dirent.name) &&
+        getPreviewKind(dirent.name) === 'image',
+    )
+    .map((dirent) => dirent.name)
+    .sort();
+
+  const index = images.indexOf(name);
+  const link = (image?: string): string | undefined =>
+    image ? `${encodeURIComponent(image)}?preview` : undefined;
+
+  return index === -1
+    ? {}
+    : { previous: link(images[index - 1]), next: link(images[index + 1]) };
+};
+
+/**
+ * Reads a text file to show it, unless it is too large or binary.
+ *
+ * @returns The text, or why it cannot be shown.
+ */
+const readText = async (
+  absolutePath: string,
+  stats: Stats,
+): Promise<{ text: string } | { message: string }> => {
+  if (stats.size > maxTextSize)
+    return {
+      message: `This file is larger than ${bytes(
+        maxTextSize,
+      )}, too large to preview.`,
+    };
+
+  const data = await readFile(absolutePath);
+  if (data.includes(0))
+    return { message: 'This file does not look like text.' };
+
+  return { text: data.toString('utf8') };
+};
+
+/**
+ * Creates what the preview page of a file shows.
+ */
+const getView = async (
+  kind: PreviewKind,
+  absolutePath: string,
+  relativePath: string,
+  stats: Stats,
+  current: string,
+  config: PreviewConfig,
+): Promise<PreviewView> => {
+  const name = path.basename(relativePath);
+
+  switch (kind) {
+    case 'image':
+      return {
+        kind,
+        ...(await findNeighbours(
+          path.join(current, path.dirname(relativePath)),
+          name,
+          config,
+        )),
+      };
+    case 'audio':
+    case 'video':
+      return { kind, mimeType: mime.lookup(name) || '' };
+    default: {
+      const content = await readText(absolutePath, stats);
+      if ('message' in content)
+        return { kind: 'unavailable', message: content.message };
+
+      if (kind === 'markdown') {
+        // Markdown that cannot be rendered is shown as text instead.
+        try {
+          return { kind, html: renderMarkdown(content.text) };
+        } catch (err: unknown) {
+          logger.warn(`Could not render ${absolutePath}: ${String(err)}`);
+        }
+      }
+
+      return { kind: 'code', lines: highlightCode(content.text, name) };
+    }
+  }
+};
+
+/**
+ * Handles a request for the preview page of a file.
+ *
+ * @param request - The incoming request.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param absolutePath - The path of the file, with symlinks resolved.
+ * @param relativePath - The decoded path of the file, as it was requested.
+ * @param stats - The stats of the file.
+ * @param config - The configuration for the handler.
+ */
+export const handlePreview = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  absolutePath: string,
+  relativePath: string,
+  stats: Stats,
+  config: PreviewConfig,
+): Promise<void> => {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    response.setHeader('Allow', 'GET, HEAD');
+    sendJSON(response, 405, { success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  const name = path.basename(relativePath);
+  const kind = getPreviewKind(name);
+  const view: PreviewView = kind
+    ? await getView(kind, absolutePath, relativePath, stats, current, config)
+    : { kind: 'unavailable', message: 'This file cannot be previewed.' };
+
+  // The folders leading to the file link to their listings, like the path
+  // above the listing.
+  const folders = relativePath.split('/').filter(Boolean).slice(0, -1);
+  const paths = [
+    { name: `${path.basename(current)}/`, url: '' },
+    ...folders.map((folder, index) => ({
+      name: `${folder}/`,
+      url: `${folders.slice(0, index + 1).join('/')}/`,
+    })),
+    { name, url: [...folders, name].join('/') },
+  ];
+
+  const page = previewTemplate({
+    name,
+    paths,
+    raw: encodeURIComponent(name),
+    size: bytes(stats.size, { unitSeparator: ' ', decimalPlaces: 0 }),
+    view,
+  });
+
+  response.statusCode = 200;
+  response.setHeader('Content-Type', 'text/html; charset=utf-8');
+  response.setHeader('Content-Length', Buffer.byteLength(page));
+  response.end(request.method === 'HEAD' ? undefined : page);
+};
@@ -0,0 +1,120 @@
+// source/handler/put.ts
+// Handles files uploaded with `PUT <path>`, so tools like `curl -T` can push
+// files without building a multipart body.
+
+import path from 'node:path';
+import bytes from 'bytes';
+import { logger } from '../utilities/logger.js';
+import { sendJSON } from './response.js';
+import {
+  exists,
+  hasFreeSpace,
+  isAllowedFile,
+  receiveFile,
+  resolveDestination,
+  resolveTargetDirectory,
+  storeUpload,
+  toBytes,
+} from './upload.js';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { UploadAction, UploadConfig } from './upload.js';
+
+/**
+ * Streams the body of a `PUT` request to the path it was sent to. The same
+ * rules apply as for files uploaded through `/__upload`, and the response
+ * has the same shape, along with a `Location` header pointing to the file.
+ *
+ * @param request - The upload request.
+ * @param response - The response to send the result with.
+ * @param current - The directory being served.
+ * @param relativePath - The decoded path of the request.
+ * @param config - The restrictions that apply to uploads.
+ */
+export const handlePutUpload = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  relativePath: string,
+  config: UploadConfig = {},
+): Promise<void> => {
+  const refuse = (statusCode: number, error: string): void => {
+    // The body will not be read, so make sure the connection is not reused.
+    response.setHeader('Connection', 'close');
+    sendJSON(response, statusCode, { success: false, error });
+  };
+
+  if (relativePath.endsWith('/')) {
+    refuse(400, 'The path has to include a file name');
+    return;
+  }
+
+  const target = await resolveTargetDirectory(
+    current,
+    path.posix.dirname(relativePath),
+  );
+  if (!('absolutePath' in target)) {
+    refuse(target.statusCode, target.error);
+    return;
+  }
+
+  const resolved = await resolveDestination(
+    current,
+    target.absolutePath,
+    path.posix.basename(relativePath),
+  );
+  if (!resolved) {
+    refuse(400, 'Invalid file name');
+    return;
+  }
+  if (!isAllowedFile(resolved.filename, config)) {
+    refuse(415, `Files like "${resolved.filename}" are not allowed`);
+    return;
+  }
+
+  const contentLength = Number(request.headers['content-length'] ?? 0);
+  const maxFileSize = toBytes(config.maxFileSize);
+  if (maxFileSize !== null && contentLength > maxFileSize) {
+    refuse(413, `File exceeds the maximum size of ${bytes(maxFileSize)}`);
+    return;
+  }
+  if (!(await hasFreeSpace(current, contentLength, config))) {
+    refuse(507, 'Not enough disk space to store the upload');
+    return;
+  }
+
+  const { onConflict = 'reject' } = config;
+  if (onConflict === 'reject' && (await exists(resolved.destination))) {
+    refuse(409, `File "${resolved.filename}" already exists`);
+    return;
+  }
+
+  let stored: { destination: string; action: UploadAction };
+  try {
+    stored = await receiveFile(request, current, config, (temporaryPath) =>
+      storeUpload(current, temporaryPath, resolved.destination, onConflict),
+    );
+  } catch (err: unknown) {
+    const error = err as Error & { statusCode?: number };
+    if (!error.statusCode) logger.error(String(err));
+
+    if (!request.complete) response.setHeader('Connection', 'close');
+    sendJSON(response, error.statusCode ?? 500, {
+      success: false,
+      error: error.statusCode ? error.message : 'Could not save the file',
+    });
+    return;
+  }
+
+  const { destination, action } = stored;
+  const location = path
+    .relative(current, destination)
+    .split(path.sep)
+    .map(encodeURIComponent)
+    .join('/');
+
+  response.setHeader('Location', `/${location}`);
+  sendJSON(response, action === 'created' || action === 'renamed' ? 201 : 200, {
+    success: true,
+    files: [{ filename: path.basename(destination), success: true, action }],
+  });
+};
@@ -0,0 +1,88 @@
+// source/handler/readme.ts
+// Finds the README file of a folder, so it can be shown below the listing,
+// like code hosts do. Markdown is rendered without any of the HTML in it,
+// text is shown as it is, and HTML is shown in a sandboxed frame, where it
+// cannot run scripts or reach the page around it.
+
+import path from 'node:path';
+import { readFile, stat } from 'node:fs/promises';
+import { logger } from '../utilities/logger.js';
+import { canBeListed, getExcluded } from './matchers.js';
+import { renderMarkdown } from './markdown.js';
+import type { Dirent } from 'node:fs';
+
+export interface ReadmeConfig {
+  // Whether README files are shown below the listing, which they are unless
+  // this is `false`.
+  readme?: boolean;
+  unlisted?: string[];
+  symlinks?: boolean;
+}
+
+// A README file, with its Markdown rendered to HTML, or its text.
+export type Readme = { name: string } & (
+  | { kind: 'markdown'; html: string }
+  | { kind: 'text' | 'html'; text: string }
+);
+
+// The names of README files, in the order they are preferred in when a
+// folder has several. Case is ignored.
+const readmeNames = ['readme.md', 'readme.txt', 'readme.html'];
+
+// The largest README file that is shown, as all of it ends up in the page.
+const maxReadmeSize = 1024 * 1024;
+
+/**
+ * Finds the README file among the entries of a folder, and reads it. Files
+ * that are not listed are skipped, and symlinks are only followed when they
+ * are enabled.
+ *
+ * @param folder - The path of the folder.
+ * @param dirents - The entries of the folder.
+ * @param config - The configuration for the handler.
+ * @returns The README file, or `null` if the folder has none that can be
+ *          shown.
+ */
+export const findReadme = async (
+  folder: string,
+  dirents: Dirent[],
+  config: ReadmeConfig,
+): Promise<Readme | null> => {
+  if (config.readme === false) return null;
+
+  const excluded = getExcluded(config.unlisted);
+  const rank = (dirent: Dirent): number =>
+    readmeNames.indexOf(dirent.name.toLowerCase());
+  const [dirent] = dirents
+    .filter(
+      (entry) =>
+        (entry.isFile() || (config.symlinks && entry.isSymbolicLink())) &&
+        rank(entry) !== -1 &&
+        canBeListed(excluded, entry.name),
+    )
+    .sort((a, b) => rank(a) - rank(b));
+  if (!dirent) return null;
+
+  const file = path.join(folder, dirent.name);
+  const stats = await stat(file).catch(() => null);
+  if (!stats?.isFile() || stats.size > maxReadmeSize) return null;
+
+  const text = await readFile(file, 'utf8').catch(() => null);
+  if (text === null) return null;
+
+  const { name } = dirent;
+  switch (path.extname(name).toLowerCase()) {
+    case '.md':
+      // Markdown that cannot be rendered is shown as text instead.
+      try {
+        return { name, kind: 'markdown', html: renderMarkdown(text) };
+      } catch (err: unknown) {
+        logger.warn(`Could not render ${file}: ${String(err)}`);
+        return { name, kind: 'text', text };
+      }
+    case '.html':
+      return { name, kind: 'html', text };
+    default:
+      return { name, kind: 'text', text };
+  }
+};
@@ -0,0 +1,122 @@
+// source/handler/resources.ts
+// Resolve the files and directories that the endpoints changing the served
+// directory operate on.
+
+import path from 'node:path';
+import { lstat, readdir, stat } from 'node:fs/promises';
+import isPathInside from 'path-is-inside';
+import { canBeListed, getExcluded } from './matchers.js';
+import { isStatePath } from './state.js';
+import { isAllowedFile, isContained } from './upload.js';
+import type { Stats } from 'node:fs';
+import type { UploadConfig } from './upload.js';
+
+export interface ResourceConfig {
+  unlisted?: string[];
+  symlinks?: boolean;
+}
+
+// A file or directory a request refers to.
+export interface Resource {
+  // The path of the resource relative to the served directory, with forward
+  // slashes and without a leading one.
+  relativePath: string;
+  absolutePath: string;
+  // The stats of the resource, or `null` if it does not exist yet.
+  stats: Stats | null;
+}
+
+/**
+ * Checks whether the given path is an existing directory.
+ */
+export const isDirectory = async (directory: string): Promise<boolean> => {
+  const stats = await stat(directory).catch(() => null);
+  return stats?.isDirectory() ?? false;
+};
+
+/**
+ * Works out the file or directory a path refers to, applying the same rules
+ * as the rest of the handler: the path has to be inside the served directory,
+ * unlisted files are out of reach, and symlinks are only followed when the
+ * `symlinks` option is enabled. Paths that are about to be changed never lead
+ * out of the served directory, even then.
+ *
+ * @param current - The directory being served.
+ * @param relativePath - The decoded path, relative to the served directory.
+ * @param config - The configuration for the handler.
+ * @param access - Whether the resource is only read, or also changed.
+ * @returns The resource, or `null` if the path may not be accessed.
+ */
+export const resolveResource = async (
+  current: string,
+  relativePath: string,
+  config: ResourceConfig,
+  access: 'read' | 'write' = 'read',
+): Promise<Resource | null> => {
+  const segments = relativePath.split('/').filter(Boolean);
+  const excluded = getExcluded(config.unlisted);
+  if (
+    segments.some(
+      (segment) =>
+        segment === '.' ||
+        segment === '..' ||
+        segment.includes('\\') ||
+        !canBeListed(excluded, segment),
+    )
+  )
+    return null;
+
+  const absolutePath = path.join(current, ...segments);
+  if (
+    (!isPathInside(absolutePath, current) && absolutePath !== current) ||
+    isStatePath(current, absolutePath)
+  )
+    return null;
+
+  let stats = await lstat(absolutePath).catch(() => null);
+  if (stats?.isSymbolicLink()) {
+    if (!config.symlinks) return null;
+    stats = await stat(absolutePath).catch(() => null);
+  }
+  if (
+    (!config.symlinks || access === 'write') &&
+    !(await isContained(current, absolutePath))
+  )
+    return null;
+
+  return { relativePath: segments.join('/'), absolutePath, stats };
+};
+
+/**
+ * Checks whether a file or directory may be stored at the given path, based
+ * on the `allow` and `deny` globs for uploads. Every file in a directory is
+ * checked at the path it would end up at.
+ *
+ * @param absolutePath - The path of the file or directory to store.
+ * @param relativePath - Where it would be stored, relative to the served
+ *                       directory.
+ * @param config - The restrictions that apply to uploads.
+ * @returns Whether the file and everything in it is accepted.
+ */
+export const isAllowedResource = async (
+  absolutePath: string,
+  relativePath: string,
+  config: UploadConfig,
+): Promise<boolean> => {
+  if (!config.allow?.length && !config.deny?.length) return true;
+
+  const stats = await lstat(absolutePath);
+  if (!stats.isDirectory()) return isAllowedFile(relativePath, config);
+
+  const names = await readdir(absolutePath);
+  const allowed = await Promise.all(
+    names.map((name) =>
+      isAllowedResource(
+        path.join(absolutePath, name),
+        `${relativePath}/${name}`,
+        config,
+      ),
+    ),
+  );
+  return allowed.every(Boolean);
+};
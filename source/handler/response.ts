@@ -0,0 +1,71 @@
+// source/handler/response.ts
+// Helpers for reading requests and sending responses from the API endpoints.
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+/**
+ * Sends the given value as a JSON response.
+ *
+ * @param response - The response to send.
+ * @param statusCode - The HTTP status code of the response.
+ * @param body - The value to serialize into the response body.
+ */
+export const sendJSON = (
+  response: ServerResponse,
+  statusCode: number,
+  body: unknown,
+): void => {
+  response.statusCode = statusCode;
+  response.setHeader('Content-Type', 'application/json');
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Sends a response without a body.
+ *
+ * @param response - The response to send.
+ * @param statusCode - The HTTP status code of the response.
+ * @param headers - The headers to send along with it.
+ */
+export const sendStatus = (
+  response: ServerResponse,
+  statusCode: number,
+  headers: Record<string, string | number> = {},
+): void => {
+  response.writeHead(statusCode, headers);
+  response.end();
+};
+
+/**
+ * Reads the body of a request into memory. Once the body grows beyond the
+ * given size, the rest of it is drained without being kept, so the response
+ * can still be delivered to the client.
+ *
+ * @param request - The request to read.
+ * @param maxSize - The largest body that is accepted, or `null` for any.
+ * @returns The body, or `null` if it is too large.
+ */
+export const readBody = (
+  request: IncomingMessage,
+  maxSize: number | null,
+): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer): void => {
+      size += chunk.length;
+      if (maxSize === null || size <= maxSize) {
+        chunks.push(chunk);
+        return;
+      }
+
+      request.off('data', onData);
+      request.resume();
+      resolve(null);
+    };
+
+    request.on('data', onData);
+    request.once('end', () => resolve(Buffer.concat(chunks)));
+    request.once('error', reject);
+  });
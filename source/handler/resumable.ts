@@ -0,0 +1,503 @@
+// source/handler/resumable.ts
+// Resumable uploads through the `/__upload/resumable` endpoint, following the
+// core protocol and the creation and termination extensions of tus
+// (https://tus.io/protocols/resumable-upload).
+
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import isPathInside from 'path-is-inside';
+import { logger } from '../utilities/logger.js';
+import { stagingDirectory } from './state.js';
+import { sendJSON, sendStatus } from './response.js';
+import {
+  exists,
+  hasFreeSpace,
+  isAllowedFile,
+  isContained,
+  removeFile,
+  resolveDestination,
+  resolveTargetDirectory,
+  storeUpload,
+  toBytes,
+} from './upload.js';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { UploadConfig } from './upload.js';
+
+// The path the resumable upload endpoints live under.
+export const resumablePath = '/__upload/resumable';
+
+const tusVersion = '1.0.0';
+const tusExtensions = 'creation,termination';
+// Uploads that have not received any data for this long are removed.
+const expiryTime = 24 * 60 * 60 * 1000;
+
+// The details of an upload, stored next to the partial data.
+interface UploadInfo {
+  // The path to store the file at once complete, relative to the served
+  // directory.
+  destination: string;
+  length: number;
+}
+
+// The uploads that are currently receiving data. Appending to the same upload
+// from two requests at once would corrupt it.
+const activeUploads = new Set<string>();
+
+const getUploadPaths = (
+  current: string,
+  id: string,
+): { data: string; info: string } => {
+  const staging = path.join(current, stagingDirectory);
+
+  return {
+    data: path.join(staging, `${id}.upload`),
+    info: path.join(staging, `${id}.json`),
+  };
+};
+
+/**
+ * Parses the `Upload-Metadata` header, a comma separated list of keys and
+ * their base64 encoded values.
+ */
+const parseMetadata = (header: string): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+
+  for (const pair of header.split(',')) {
+    const [key, value = ''] = pair.trim().split(' ');
+    if (key) metadata[key] = Buffer.from(value, 'base64').toString('utf8');
+  }
+
+  return metadata;
+};
+
+const sendFailure = (
+  response: ServerResponse,
+  statusCode: number,
+  error: string,
+): void => sendJSON(response, statusCode, { success: false, error });
+
+const loadUpload = async (
+  current: string,
+  id: string,
+): Promise<UploadInfo | null> => {
+  try {
+    const raw = await readFile(getUploadPaths(current, id).info, 'utf8');
+    return JSON.parse(raw) as UploadInfo;
+  } catch (err: unknown) {
+    const error = err as NodeJS.ErrnoException;
+    if (error.code !== 'ENOENT') throw err;
+
+    return null;
+  }
+};
+
+/**
+ * Finds how much data an upload has received so far, which is the offset to
+ * resume it from.
+ *
+ * @returns The offset, or `null` if the data of the upload is gone.
+ */
+const getOffset = async (
+  current: string,
+  id: string,
+): Promise<number | null> => {
+  try {
+    const { size } = await stat(getUploadPaths(current, id).data);
+    return size;
+  } catch (err: unknown) {
+    const error = err as NodeJS.ErrnoException;
+    if (error.code !== 'ENOENT') throw err;
+
+    return null;
+  }
+};
+
+const removeUpload = async (current: string, id: string): Promise<void> => {
+  const paths = getUploadPaths(current, id);
+
+  await removeFile(paths.data);
+  await removeFile(paths.info);
+};
+
+/**
+ * Removes the uploads that were abandoned by their clients, along with the
+ * files other uploads left behind in the staging directory, for example when
+ * the server stopped while receiving them.
+ */
+const removeExpiredUploads = async (current: string): Promise<void> => {
+  const staging = path.join(current, stagingDirectory);
+  const files = new Set(await readdir(staging));
+  const ids = [...files]
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.basename(file, '.json'))
+    .filter((id) => !activeUploads.has(id));
+  const leftovers = [...files].filter(
+    (file) =>
+      file.endsWith('.upload') &&
+      !files.has(`${path.basename(file, '.upload')}.json`),
+  );
+
+  const isExpired = async (file: string): Promise<boolean> => {
+    const stats = await stat(file).catch(() => null);
+    return !stats || Date.now() - stats.mtimeMs > expiryTime;
+  };
+
+  await Promise.all([
+    ...ids.map(async (id) => {
+      if (await isExpired(getUploadPaths(current, id).data))
+        await removeUpload(current, id);
+    }),
+    ...leftovers.map(async (file) => {
+      const leftover = path.join(staging, file);
+      if (await isExpired(leftover)) await removeFile(leftover);
+    }),
+  ]);
+};
+
+/**
+ * Moves a completed upload to its destination, resolving a conflict with an
+ * existing file according to the configured policy.
+ *
+ * @returns The headers describing what was done to store the file, or the
+ *          reason it could not be stored.
+ */
+const completeUpload = async (
+  current: string,
+  id: string,
+  info: UploadInfo,
+  config: UploadConfig,
+): Promise<
+  { headers: Record<string, string> } | { statusCode: number; error: string }
+> => {
+  const paths = getUploadPaths(current, id);
+  const destination = path.join(current, info.destination);
+  // A folder on the way may have been replaced by a link while the data was
+  // being sent.
+  if (
+    !isPathInside(destination, current) ||
+    !(await isContained(current, destination))
+  )
+    return { statusCode: 400, error: 'Invalid file name' };
+
+  try {
+    const stored = await storeUpload(
+      current,
+      paths.data,
+      destination,
+      config.onConflict,
+    );
+    const filename = path.relative(current, stored.destination);
+
+    return {
+      headers: {
+        'Upload-Action': stored.action,
+        'Upload-Filename': encodeURIComponent(
+          filename.split(path.sep).join('/'),
+        ),
+      },
+    };
+  } catch (err: unknown) {
+    const error = err as Error & { statusCode?: number };
+    if (!error.statusCode) throw err;
+
+    return { statusCode: error.statusCode, error: error.message };
+  } finally {
+    await removeFile(paths.info);
+  }
+};
+
+const createUpload = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  directory: string,
+  config: UploadConfig,
+): Promise<void> => {
+  const length = Number(request.headers['upload-length']);
+  if (!Number.isSafeInteger(length) || length < 0) {
+    sendFailure(response, 400, 'Invalid Upload-Length header');
+    return;
+  }
+
+  const maxFileSize = toBytes(config.maxFileSize);
+  if (maxFileSize !== null && length > maxFileSize) {
+    sendFailure(response, 413, 'File exceeds the maximum upload size');
+    return;
+  }
+
+  const target = await resolveTargetDirectory(current, directory);
+  if (!('absolutePath' in target)) {
+    sendFailure(response, target.statusCode, target.error);
+    return;
+  }
+
+  const metadata = parseMetadata(
+    String(request.headers['upload-metadata'] ?? ''),
+  );
+  const resolved = await resolveDestination(
+    current,
+    target.absolutePath,
+    metadata.filename ?? '',
+  );
+  if (!resolved) {
+    sendFailure(response, 400, 'Invalid file name');
+    return;
+  }
+  if (!isAllowedFile(resolved.filename, config)) {
+    sendFailure(
+      response,
+      415,
+      `Files like "${resolved.filename}" are not allowed`,
+    );
+    return;
+  }
+  if (!(await hasFreeSpace(current, length, config))) {
+    sendFailure(response, 507, 'Not enough disk space to store the upload');
+    return;
+  }
+  if (
+    (config.onConflict ?? 'reject') === 'reject' &&
+    (await exists(resolved.destination))
+  ) {
+    sendFailure(response, 409, `File "${resolved.filename}" already exists`);
+    return;
+  }
+
+  await mkdir(path.join(current, stagingDirectory), { recursive: true });
+  await removeExpiredUploads(current).catch((error: Error) =>
+    logger.error(String(error)),
+  );
+
+  const id = randomBytes(16).toString('hex');
+  const paths = getUploadPaths(current, id);
+  const info: UploadInfo = {
+    destination: path.relative(current, resolved.destination),
+    length,
+  };
+
+  await writeFile(paths.data, '');
+  await writeFile(paths.info, JSON.stringify(info));
+
+  const headers = { Location: `${resumablePath}/${id}`, 'Upload-Offset': 0 };
+
+  // An empty file is complete as soon as it is created.
+  if (length === 0) {
+    const completed = await completeUpload(current, id, info, config);
+    if (!('headers' in completed)) {
+      sendFailure(response, completed.statusCode, completed.error);
+      return;
+    }
+
+    Object.assign(headers, completed.headers);
+  }
+
+  sendStatus(response, 201, headers);
+};
+
+/**
+ * Appends the body of a `PATCH` request to an upload, and completes the
+ * upload once all of its data was received. The upload has to be marked as
+ * active while this runs.
+ */
+const receiveData = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  id: string,
+  info: UploadInfo,
+  config: UploadConfig,
+): Promise<void> => {
+  const offset = await getOffset(current, id);
+  if (offset === null) {
+    sendFailure(response, 404, 'Upload not found');
+    return;
+  }
+  if (Number(request.headers['upload-offset']) !== offset) {
+    sendStatus(response, 409, { 'Upload-Offset': offset });
+    return;
+  }
+
+  if (!(await hasFreeSpace(current, info.length - offset, config))) {
+    sendFailure(response, 507, 'Not enough disk space to store the upload');
+    return;
+  }
+
+  // Anything beyond the declared length of the upload, or the maximum size of
+  // a request, is dropped. The client resumes from the returned offset.
+  const maxRequestSize = toBytes(config.maxRequestSize);
+  let remaining = Math.min(
+    info.length - offset,
+    maxRequestSize ?? Number.POSITIVE_INFINITY,
+  );
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const data = chunk.subarray(0, Math.max(0, remaining));
+      remaining -= data.length;
+      callback(null, data);
+    },
+  });
+
+  // The request is piped rather than made part of the pipeline, so that it is
+  // not destroyed along with the connection when the file cannot be written,
+  // and the response can still be delivered.
+  const paths = getUploadPaths(current, id);
+  request.on('close', () => {
+    if (!request.complete) limit.destroy(new Error('Upload was aborted'));
+  });
+  request.pipe(limit);
+
+  try {
+    await pipeline(limit, createWriteStream(paths.data, { flags: 'a' }));
+  } catch (err: unknown) {
+    request.unpipe(limit);
+    request.resume();
+
+    // The data received before the client went away stays in place, so the
+    // client can resume from there. A request that was read completely is
+    // destroyed as well, so that alone does not mean the client is gone.
+    if (request.destroyed && !request.complete) {
+      logger.error(`Upload ${id} was interrupted: ${String(err)}`);
+      return;
+    }
+
+    if (!request.complete) response.setHeader('Connection', 'close');
+    if ((err as NodeJS.ErrnoException).code === 'ENOSPC') {
+      sendFailure(response, 507, 'Not enough disk space to store the upload');
+      return;
+    }
+
+    logger.error(`Upload ${id} could not be written: ${String(err)}`);
+    sendFailure(response, 500, 'Could not save the data');
+    return;
+  }
+
+  const size = await getOffset(current, id);
+  if (size === null) {
+    sendFailure(response, 404, 'Upload not found');
+    return;
+  }
+
+  const headers = { 'Upload-Offset': size };
+
+  if (size === info.length) {
+    const completed = await completeUpload(current, id, info, config);
+    if (!('headers' in completed)) {
+      sendFailure(response, completed.statusCode, completed.error);
+      return;
+    }
+
+    Object.assign(headers, completed.headers);
+  }
+
+  sendStatus(response, 204, headers);
+};
+
+const appendToUpload = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  id: string,
+  info: UploadInfo,
+  config: UploadConfig,
+): Promise<void> => {
+  if (request.headers['content-type'] !== 'application/offset+octet-stream') {
+    sendFailure(response, 415, 'Invalid Content-Type header');
+    return;
+  }
+  if (activeUploads.has(id)) {
+    sendFailure(response, 423, 'The upload is already receiving data');
+    return;
+  }
+
+  activeUploads.add(id);
+  try {
+    await receiveData(request, response, current, id, info, config);
+  } finally {
+    activeUploads.delete(id);
+  }
+};
+
+/**
+ * Handles a request to one of the resumable upload endpoints:
+ *
+ * - `OPTIONS /__upload/resumable` describes the supported protocol.
+ * - `POST /__upload/resumable?path=` creates an upload.
+ * - `HEAD /__upload/resumable/:id` returns the offset to resume from.
+ * - `PATCH /__upload/resumable/:id` appends data at the given offset.
+ * - `DELETE /__upload/resumable/:id` cancels the upload.
+ *
+ * @param request - The request to handle.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param pathname - The path of the request.
+ * @param directory - The directory to upload to, relative to the served one.
+ * @param config - The restrictions that apply to uploads.
+ */
+export const handleResumableUpload = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  pathname: string,
+  directory: string,
+  config: UploadConfig = {},
+): Promise<void> => {
+  response.setHeader('Tus-Resumable', tusVersion);
+
+  if (pathname === resumablePath) {
+    if (request.method === 'OPTIONS') {
+      const maxFileSize = toBytes(config.maxFileSize);
+      sendStatus(response, 204, {
+        'Tus-Version': tusVersion,
+        'Tus-Extension': tusExtensions,
+        ...(maxFileSize === null ? {} : { 'Tus-Max-Size': maxFileSize }),
+      });
+      return;
+    }
+    if (request.method === 'POST') {
+      await createUpload(request, response, current, directory, config);
+      return;
+    }
+
+    response.setHeader('Allow', 'OPTIONS, POST');
+    sendFailure(response, 405, 'Method not allowed');
+    return;
+  }
+
+  const id = pathname.slice(resumablePath.length + 1);
+  const info = /^[\da-f]{32}$/.test(id) ? await loadUpload(current, id) : null;
+  if (!info) {
+    sendFailure(response, 404, 'Upload not found');
+    return;
+  }
+
+  switch (request.method) {
+    case 'HEAD': {
+      const offset = await getOffset(current, id);
+      if (offset === null) {
+        sendFailure(response, 404, 'Upload not found');
+        return;
+      }
+
+      sendStatus(response, 200, {
+        'Upload-Offset': offset,
+        'Upload-Length': info.length,
+        'Cache-Control': 'no-store',
+      });
+      return;
+    }
+    case 'PATCH':
+      await appendToUpload(request, response, current, id, info, config);
+      return;
+    case 'DELETE':
+      await removeUpload(current, id);
+      sendStatus(response, 204);
+      return;
+    default:
+      response.setHeader('Allow', 'HEAD, PATCH, DELETE');
+      sendFailure(response, 405, 'Method not allowed');
+  }
+};
@@ -0,0 +1,170 @@
+// source/handler/search.ts
+// Find files by name anywhere below a directory, with the `/__search`
+// endpoint.
+
+import path from 'node:path';
+import { lstat, readdir } from 'node:fs/promises';
+import { logger } from '../utilities/logger.js';
+import { canBeListed, getExcluded, isListable } from './matchers.js';
+import { describeEntry, listingVersion, matchesFilter } from './listing.js';
+import { isDirectory, resolveResource } from './resources.js';
+import { sendJSON } from './response.js';
+import { isStatePath } from './state.js';
+import type { Dirent } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ParsedUrlQuery } from 'node:querystring';
+import type { ListingEntry } from './listing.js';
+import type { ResourceConfig } from './resources.js';
+
+export interface SearchConfig extends ResourceConfig {
+  directoryListing?: boolean | string[];
+}
+
+export const searchPath = '/__search';
+
+// How many levels of folders below the starting one are searched.
+const maxDepth = 10;
+// How many matches are sent at most.
+const maxResults = 200;
+// How many entries are looked at before giving up, so searching a huge tree
+// does not keep the server busy for long.
+const maxVisited = 100_000;
+// The longest query that is accepted, as globs are compiled to expressions.
+const maxQueryLength = 200;
+
+// A folder that still has to be searched, with its path from the root of the
+// served directory.
+interface PendingFolder {
+  absolutePath: string;
+  relativePath: string;
+  depth: number;
+}
+
+/**
+ * Walks the folders below the given one, breadth first, and collects the
+ * files and folders whose names match the query. Unlisted files and the
+ * folders inside them are skipped. Symlinks are only found when the
+ * `symlinks` option is enabled, and are never followed, so links back up the
+ * tree cannot make the search go around in circles.
+ */
+const search = async (
+  current: string,
+  start: PendingFolder,
+  query: string,
+  config: SearchConfig,
+): Promise<{ results: ListingEntry[]; truncated: boolean }> => {
+  const excluded = getExcluded(config.unlisted);
+  const results: ListingEntry[] = [];
+  const queue: PendingFolder[] = [start];
+  let visited = 0;
+
+  for (let folder = queue.shift(); folder; folder = queue.shift()) {
+    if (!isListable(folder.relativePath, config.directoryListing)) continue;
+
+    // Folders are read one at a time, to keep the number of open files low.
+    // eslint-disable-next-line no-await-in-loop
+    const dirents: Dirent[] = await readdir(folder.absolutePath, {
+      withFileTypes: true,
+    }).catch(() => []);
+
+    for (const dirent of dirents) {
+      if (++visited > maxVisited) return { results, truncated: true };
+
+      const { name } = dirent;
+      const absolutePath = path.join(folder.absolutePath, name);
+      if (
+        !canBeListed(excluded, name) ||
+        isStatePath(current, absolutePath) ||
+        (dirent.isSymbolicLink() && !config.symlinks)
+      )
+        continue;
+
+      const isFolder = dirent.isDirectory();
+      const relativePath = path.posix.join(
+        folder.relativePath,
+        name,
+        isFolder ? '/' : '',
+      );
+
+      if (matchesFilter(name, query)) {
+        // eslint-disable-next-line no-await-in-loop
+        const stats = await lstat(absolutePath).catch(() => null);
+        if (stats) {
+          results.push(describeEntry({ name, path: relativePath, stats }));
+          if (results.length >= maxResults) return { results, truncated: true };
+        }
+      }
+
+      if (isFolder && folder.depth < maxDepth)
+        queue.push({ absolutePath, relativePath, depth: folder.depth + 1 });
+    }
+  }
+
+  return { results, truncated: false };
+};
+
+/**
+ * Handles a request to the search endpoint. The `q` query parameter is a
+ * glob the names of the files have to match, or text they have to contain,
+ * like the filter of the listing. The `path` query parameter selects the
+ * folder to search in, and defaults to the served directory.
+ *
+ * @param request - The incoming request.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param query - The parsed query of the request.
+ * @param config - The configuration for the handler.
+ */
+export const handleSearch = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  query: ParsedUrlQuery,
+  config: SearchConfig,
+): Promise<void> => {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    response.setHeader('Allow', 'GET, HEAD');
+    sendJSON(response, 405, { success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  const text = typeof query.q === 'string' ? query.q.trim() : '';
+  if (!text || text.length > maxQueryLength) {
+    sendJSON(response, 400, {
+      success: false,
+      error: `The query has to be between 1 and ${maxQueryLength} characters long`,
+    });
+    return;
+  }
+
+  const directory = typeof query.path === 'string' ? query.path : '/';
+  const resource = await resolveResource(current, directory, config);
+  if (!resource || !(await isDirectory(resource.absolutePath))) {
+    sendJSON(response, 404, { success: false, error: 'Folder not found' });
+    return;
+  }
+
+  const relativePath = resource.relativePath
+    ? `/${resource.relativePath}/`
+    : '/';
+
+  try {
+    const { results, truncated } = await search(
+      current,
+      { absolutePath: resource.absolutePath, relativePath, depth: 0 },
+      text,
+      config,
+    );
+
+    sendJSON(response, 200, {
+      version: listingVersion,
+      query: text,
+      path: relativePath,
+      results,
+      truncated,
+    });
+  } catch (error: unknown) {
+    logger.error(`Failed to search for ${text}: ${String(error)}`);
+    sendJSON(response, 500, { success: false, error: 'Search failed' });
+  }
+};
@@ -0,0 +1,31 @@
+// source/handler/state.ts
+// Locations of the files the server keeps inside the served directory.
+
+import path from 'node:path';
+
+// The hidden directory that holds partial uploads and any other state the
+// server needs to keep. It is never shown in directory listings.
+export const stateDirectory = '.serve-box';
+
+// Uploads are written here first, and only moved into place once complete.
+export const stagingDirectory = path.join(stateDirectory, 'staging');
+
+// Previous copies of files replaced by uploads are kept here.
+export const versionsDirectory = path.join(stateDirectory, 'versions');
+
+// Thumbnails of images are cached here, so they are only made once.
+export const thumbnailsDirectory = path.join(stateDirectory, 'thumbnails');
+
+/**
+ * Checks whether the given path points into the state directory.
+ *
+ * @param current - The directory being served.
+ * @param absolutePath - The path to check.
+ * @returns Whether the path is the state directory or inside of it.
+ */
+export const isStatePath = (current: string, absolutePath: string): boolean => {
+  const directory = path.join(current, stateDirectory);
+  const relative = path.relative(directory, absolutePath);
+
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+};
@@ -1,6 +1,10 @@
 // source/handler/templates.ts
 // HTML templates for directory listing and error pages.
 
+import { hasThumbnail, thumbnailPath } from './thumbnails.js';
+import type { ListingOptions, SortKey } from './listing.js';
+import type { Readme } from './readme.js';
+
 interface FileEntry {
   type: 'file' | 'folder' | 'directory';
   base: string;
@@ -8,12 +12,49 @@ interface FileEntry {
   title: string;
   ext: string;
   size?: string;
+  // Whether the file can be shown on a preview page.
+  preview?: boolean;
 }
 
 interface DirectorySpec {
   files: FileEntry[];
   directory: string;
   paths: { name: string; url: string }[];
+  // How the listing is sorted and filtered.
+  listing?: ListingOptions;
+  // The query that loads the next page of the listing, if there is one.
+  nextPage?: string;
+  // The README file of the directory, shown below the listing.
+  readme?: Readme | null;
+  // Whether the listing should leave out the controls that change anything.
+  readOnly?: boolean;
+}
+
+// The keys the listing can be sorted by, with their labels.
+const sortLabels: [SortKey, string][] = [
+  ['name', 'Name'],
+  ['size', 'Size'],
+  ['mtime', 'Modified'],
+];
+
+// What a preview page shows: rendered Markdown, lines of highlighted code, an
+// image with links to the previous and next ones in its folder, a player, or
+// why the file cannot be shown.
+export type PreviewView =
+  | { kind: 'markdown'; html: string }
+  | { kind: 'code'; lines: string[] }
+  | { kind: 'image'; previous?: string; next?: string }
+  | { kind: 'audio' | 'video'; mimeType: string }
+  | { kind: 'unavailable'; message: string };
+
+interface PreviewSpec {
+  name: string;
+  // The folders leading to the file, and the file itself.
+  paths: { name: string; url: string }[];
+  // The link to the file itself, relative to the preview page.
+  raw: string;
+  size: string;
+  view: PreviewView;
 }
 
 interface ErrorSpec {
@@ -37,7 +78,15 @@ const encodeHTML = (code: string): string => {
 };
 
 export const directoryTemplate = (spec: DirectorySpec): string => {
-  const { files, directory, paths } = spec;
+  const {
+    files,
+    directory,
+    paths,
+    listing = { sort: 'name', order: 'asc', filter: '' },
+    nextPage,
+    readme,
+    readOnly = false,
+  } = spec;
 
   const pathLinks = paths
     .map(
@@ -54,12 +103,111 @@ export const directoryTemplate = (spec: DirectorySpec): string => {
         file.type === 'folder' || file.type === 'directory'
           ? 'folder'
           : `file ${file.ext}`;
-      return `<li><a href="${encodeHTML(file.relative)}" title="${encodeHTML(
-        file.title,
-      )}" class="${className}">${encodeHTML(file.base)}</a></li>`;
+      const filePath = encodeHTML(file.relative);
+      // Folders can be downloaded as archives, and files that can be shown in
+      // the browser link to their preview page, even when the server is
+      // read-only.
+      let links = '';
+      if (file.type === 'folder')
+        links = `<a href="${filePath}?archive=zip" download>.zip</a><a href="${filePath}?archive=tar.gz" download>.tar.gz</a>`;
+      else if (file.preview)
+        links = `<a href="${filePath}?preview">Preview</a>`;
+      const buttons =
+        readOnly || file.type === 'directory'
+          ? ''
+          : `<button data-action="rename" data-path="${filePath}">Rename</button><button data-action="delete" data-path="${filePath}">Delete</button>`;
+      const actions =
+        links || buttons
+          ? `<span class="file-actions">${links}${buttons}</span>`
+          : '';
+      // Entries are chosen with checkboxes that belong to the form which
+      // downloads them as one archive.
+      const checkbox =
+        file.type === 'directory'
+          ? ''
+          : `<input type="checkbox" class="file-select" name="path" value="${filePath}" form="selection-form" aria-label="Select ${encodeHTML(
+              file.base,
+            )}">`;
+      // Images get a thumbnail, which is only shown, and so only loaded, in
+      // the grid view.
+      const thumbnail =
+        file.type === 'file' && hasThumbnail(file.base)
+          ? `<img class="thumbnail" src="${thumbnailPath}?path=${encodeHTML(
+              encodeURIComponent(file.relative),
+            )}" alt="" loading="lazy">`
+          : '';
+      return `<li>${checkbox}<a href="${encodeHTML(
+        file.relative,
+      )}" title="${encodeHTML(file.title)}" class="${className}${
+        thumbnail ? ' with-thumbnail' : ''
+      }">${thumbnail}${encodeHTML(file.base)}</a>${actions}</li>`;
     })
     .join('');
 
+  // Links that sort the listing by each key. Sizes and times are sorted from
+  // the largest or newest first, and clicking the active key again reverses
+  // the order.
+  const sortLinks = sortLabels
+    .map(([key, label]) => {
+      const active = listing.sort === key;
+      let order = key === 'name' ? 'asc' : 'desc';
+      if (active) order = listing.order === 'asc' ? 'desc' : 'asc';
+
+      const query = new URLSearchParams({ sort: key, order });
+      if (listing.filter) query.set('filter', listing.filter);
+
+      const arrow = listing.order === 'asc' ? ' ↑' : ' ↓';
+      return `<a href="?${encodeHTML(query.toString())}" data-sort="${key}"${
+        active ? ' class="active"' : ''
+      }>${label}${active ? arrow : ''}</a>`;
+    })
+    .join('');
+  const moreLink = nextPage
+    ? `<a href="${encodeHTML(nextPage)}">Load more</a>`
+    : '';
+  // HTML files are shown in a frame that cannot run scripts, and is given
+  // the file in an attribute, which only needs its ampersands and quotes
+  // escaped.
+  let readmeContent = '';
+  if (readme?.kind === 'markdown')
+    readmeContent = `<div class="readme-content">${readme.html}</div>`;
+  else if (readme?.kind === 'html')
+    readmeContent = `<iframe class="readme-frame" sandbox srcdoc="${readme.text
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')}" title="${encodeHTML(readme.name)}"></iframe>`;
+  else if (readme)
+    readmeContent = `<pre class="readme-content readme-text">${encodeHTML(
+      readme.text,
+    )}</pre>`;
+  const readmeSection = readme
+    ? `
+    <section class="readme" id="readme">
+      <h2>📄 ${encodeHTML(readme.name)}</h2>
+      ${readmeContent}
+    </section>`
+    : '';
+  const sortFields = `<input type="hidden" name="sort" value="${listing.sort}"><input type="hidden" name="order" value="${listing.order}">`;
+
+  // The controls that change anything are left out when the server is
+  // read-only.
+  const uploadForm = readOnly
+    ? ''
+    : `
+      <div class="upload-form">
+        <input type="file" id="file-input" multiple />
+        <input type="file" id="folder-input" webkitdirectory />
+        <button class="upload-btn" id="upload-btn">Upload Files</button>
+        <button class="upload-btn" id="folder-btn">Upload Folder</button>
+        <button class="upload-btn" id="mkdir-btn">New Folder</button>
+        <span class="upload-status" id="upload-status"></span>
+      </div>`;
+  const dropOverlay = readOnly
+    ? ''
+    : '<div class="drop-overlay" id="drop-overlay">Drop files or folders to upload them here</div>';
+  const boardAttributes = readOnly
+    ? 'readonly'
+    : 'placeholder="Type here to share text with everyone..."';
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -98,8 +246,38 @@ export const directoryTemplate = (spec: DirectorySpec): string => {
     .upload-status { font-size: 12px; color: #666; }
     .upload-status.error { color: #e00; }
     .upload-status.success { color: #0a0; }
-    .upload-progress { width: 100px; height: 6px; background: #e0e0e0; border-radius: 3px; overflow: hidden; display: none; }
+    .upload-progress { width: 100px; height: 6px; background: #e0e0e0; border-radius: 3px; overflow: hidden; flex-shrink: 0; }
     .upload-progress-bar { height: 100%; background: #0076FF; width: 0%; transition: width 0.1s; }
+    .upload-list { margin-top: 15px; font-size: 12px; }
+    .upload-list:empty { display: none; }
+    .upload-item { display: flex; align-items: center; gap: 10px; padding: 4px 0; }
+    .upload-item-name { flex: 1; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+    .upload-item-status { width: 160px; color: #666; }
+    .upload-item.error .upload-item-status { color: #e00; }
+    .upload-item.success .upload-item-status { color: #0a0; }
+    .upload-item.error .upload-progress-bar { background: #e00; }
+    .drop-overlay { position: fixed; top: 0; left: 0; right: 0; bottom: 0; background: rgba(0,118,255,0.08); border: 3px dashed #0076FF; display: none; align-items: center; justify-content: center; font-size: 16px; color: #0076FF; pointer-events: none; z-index: 10; }
+    .drop-overlay.visible { display: flex; }
+
+    /* File management styles */
+    .file-actions { display: none; align-items: center; flex-shrink: 0; }
+    ul li:hover .file-actions, ul li:focus-within .file-actions { display: flex; }
+    .file-actions button { background: none; border: none; color: #0076FF; cursor: pointer; font-size: 11px; padding: 2px 4px; }
+    .file-actions button:hover { text-decoration: underline; }
+    .file-actions a { display: inline; width: auto; padding: 2px 4px; margin: 0; color: #0076FF; font-size: 11px; }
+    .listing-download a { color: #0076FF; }
+    .selection-download { padding: 2px 8px; border: 1px solid #ddd; border-radius: 4px; background: #fff; font-size: 12px; cursor: pointer; }
+    .selection-download:disabled { color: #aaa; cursor: default; }
+    ul li input.file-select { flex-shrink: 0; align-self: center; margin: 0 4px 0 0; }
+    .view-toggle { padding: 2px 8px; border: 1px solid #ddd; border-radius: 4px; background: #fff; font-size: 12px; cursor: pointer; }
+    ul img.thumbnail { display: none; }
+    main > ul.grid { display: flex; flex-wrap: wrap; }
+    main > ul.grid li { width: 160px; padding: 0 10px 10px 0; flex-wrap: wrap; align-items: flex-start; box-sizing: border-box; }
+    main > ul.grid li input.file-select { align-self: flex-start; margin-top: 10px; }
+    main > ul.grid a { flex: 1; width: auto; min-width: 0; }
+    main > ul.grid a.with-thumbnail::before { display: none; }
+    main > ul.grid img.thumbnail { display: block; width: 128px; height: 128px; margin-bottom: 6px; object-fit: cover; border-radius: 4px; background: #f5f5f5; }
+    @media (hover: none) { .file-actions { display: flex; } }
 
     /* QR code styles */
     .qr-container { position: fixed; bottom: 20px; right: 20px; background: #fff; padding: 10px; border-radius: 8px; box-shadow: 0 2px 10px rgba(0,0,0,0.1); cursor: pointer; transition: opacity 0.2s; }
@@ -113,28 +291,100 @@ export const directoryTemplate = (spec: DirectorySpec): string => {
 
     /* Shared board styles */
     .shared-board { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; }
-    .shared-board h2 { font-size: 14px; font-weight: 500; margin: 0 0 10px 0; color: #333; }
+    .shared-board-header { display: flex; align-items: center; gap: 10px; margin-bottom: 10px; }
+    .shared-board h2 { font-size: 14px; font-weight: 500; margin: 0; color: #333; }
+    .shared-board select { padding: 2px 6px; border: 1px solid #ddd; border-radius: 4px; font-family: inherit; font-size: 12px; background: #fff; }
     .shared-board textarea { width: 100%; min-height: 120px; padding: 10px; border: 1px solid #ddd; border-radius: 4px; font-family: inherit; font-size: 13px; resize: vertical; box-sizing: border-box; }
     .shared-board textarea:focus { outline: none; border-color: #0076FF; }
     .shared-board-status { font-size: 11px; color: #666; margin-top: 5px; }
+    .shared-board-history-btn, .shared-board-preview-btn { padding: 2px 8px; border: 1px solid #ddd; border-radius: 4px; background: #fff; font-size: 12px; cursor: pointer; }
+    .shared-board-preview-btn { margin-left: auto; }
+    .shared-board-preview-btn.active { background: #0076FF; border-color: #0076FF; color: #fff; }
+    .shared-board textarea.dragging { border-color: #0076FF; background: #f5f9ff; }
+    .shared-board-rendered { min-height: 120px; padding: 10px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px; line-height: 1.5; overflow-wrap: break-word; box-sizing: border-box; }
+    .shared-board-rendered > :first-child { margin-top: 0; }
+    .shared-board-rendered > :last-child { margin-bottom: 0; }
+    .shared-board-rendered h1, .shared-board-rendered h2, .shared-board-rendered h3 { font-size: 15px; margin: 12px 0 6px; border: none; }
+    .shared-board-rendered a { color: #0076FF; }
+    .shared-board-rendered img { max-width: 100%; }
+    .shared-board-rendered code { font-family: Menlo, Consolas, monospace; font-size: 12px; background: #f5f5f5; padding: 1px 4px; border-radius: 3px; }
+    .shared-board-rendered pre { background: #f5f5f5; padding: 8px 10px; border-radius: 4px; overflow-x: auto; }
+    .shared-board-rendered pre code { padding: 0; }
+    .shared-board-rendered blockquote { margin: 0; padding-left: 10px; border-left: 3px solid #ddd; color: #666; }
+    .shared-board-rendered li.task { list-style: none; margin-left: -18px; }
+    .shared-board-history { margin-top: 10px; border: 1px solid #eee; border-radius: 4px; font-size: 12px; max-height: 300px; overflow-y: auto; }
+    .shared-board-history-item { display: flex; align-items: center; gap: 8px; padding: 6px 10px; border-bottom: 1px solid #f3f3f3; color: #666; }
+    .shared-board-history-item:last-child { border-bottom: none; }
+    .shared-board-history-item span { flex: 1; }
+    .shared-board-history-item button { padding: 1px 6px; border: 1px solid #ddd; border-radius: 3px; background: #fff; font-size: 11px; cursor: pointer; }
+    .listing-controls { display: flex; align-items: center; flex-wrap: wrap; gap: 10px; margin-top: 15px; font-size: 12px; color: #666; }
+    .listing-sort a { color: #666; margin-right: 10px; }
+    .listing-sort a.active { color: #000; font-weight: 500; }
+    .search-form { margin-left: auto; }
+    .search-form input { padding: 6px 10px; border: 1px solid #ddd; border-radius: 4px; font-family: inherit; font-size: 12px; width: 200px; }
+    .search-results { margin-top: 15px; padding: 10px; border: 1px solid #eee; border-radius: 4px; }
+    .search-results ul { display: block; padding-top: 5px; }
+    .search-results ul li { width: auto; padding-right: 0; }
+    .search-summary { font-size: 12px; color: #666; }
+    .listing-more { text-align: center; font-size: 12px; }
+    .listing-more a { display: inline-block; padding: 10px; color: #0076FF; }
+    .readme { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; }
+    .readme h2 { font-size: 14px; font-weight: 500; margin: 0 0 10px; color: #333; }
+    .readme-content { font-size: 14px; line-height: 1.6; overflow-wrap: break-word; }
+    .readme-content a { color: #0076FF; }
+    .readme-content img { max-width: 100%; }
+    .readme-content code { font-family: Menlo, Consolas, monospace; font-size: 12px; background: #f5f5f5; padding: 1px 4px; border-radius: 3px; }
+    .readme-content pre { background: #f5f5f5; padding: 8px 10px; border-radius: 4px; overflow-x: auto; }
+    .readme-content pre code { padding: 0; }
+    .readme-content blockquote { margin: 0; padding-left: 10px; border-left: 3px solid #ddd; color: #666; }
+    .readme-content ul, .readme-content ol { display: block; margin: 0 0 8px; padding: 0 0 0 20px; }
+    .readme-content li { display: list-item; list-style: disc; width: auto; padding: 0; font-size: 14px; }
+    .readme-content ol li { list-style: decimal; }
+    .readme-content li a { display: inline; padding: 0; margin: 0; white-space: normal; }
+    .readme-content li.task { list-style: none; margin-left: -18px; }
+    pre.readme-text { margin: 0; font-family: Menlo, Consolas, monospace; font-size: 12px; white-space: pre-wrap; }
+    .readme-frame { width: 100%; height: 400px; border: 1px solid #eee; border-radius: 4px; resize: vertical; }
+    .listing-controls input[type="search"] { margin-left: auto; padding: 4px 8px; border: 1px solid #ddd; border-radius: 4px; font-family: inherit; font-size: 12px; width: 180px; }
+    .shared-board-rendered ul, .shared-board-rendered ol { display: block; margin: 0 0 8px; padding: 0 0 0 20px; }
+    .shared-board-rendered li { display: list-item; list-style: disc; width: auto; padding: 0; font-size: 13px; }
+    .shared-board-rendered ol li { list-style: decimal; }
+    .shared-board-rendered li a { display: inline; padding: 0; margin: 0; color: #0076FF; white-space: normal; }
+    .shared-board-history pre { margin: 0; padding: 6px 10px; background: #fafafa; white-space: pre-wrap; word-break: break-word; }
   </style>
 </head>
 <body>
   <main>
     <header>
       <h1>${pathLinks}</h1>
-      <div class="upload-form">
-        <input type="file" id="file-input" />
-        <button class="upload-btn" id="upload-btn" onclick="document.getElementById('file-input').click()">Upload File</button>
-        <span class="upload-status" id="upload-status"></span>
-        <div class="upload-progress" id="upload-progress"><div class="upload-progress-bar" id="upload-progress-bar"></div></div>
-      </div>
+      <form class="search-form" id="search-form" role="search">
+        <input type="search" name="q" id="search-input" placeholder="Search in all folders" aria-label="Search">
+      </form>${uploadForm}
     </header>
+    <div class="upload-list" id="upload-list"></div>
+    <div class="search-results" id="search-results" hidden></div>
+    <form class="listing-controls" id="listing-controls">
+      <span class="listing-sort" id="listing-sort">Sort by ${sortLinks}${sortFields}</span>
+      <span class="listing-download">Download as <a href="?archive=zip" download>.zip</a> <a href="?archive=tar.gz" download>.tar.gz</a></span>
+      <button type="submit" class="selection-download" id="selection-download" form="selection-form">Download selected</button>
+      <button type="button" class="view-toggle" id="view-toggle" aria-pressed="false">Grid</button>
+      <input type="search" name="filter" id="listing-filter" value="${encodeHTML(
+        listing.filter,
+      )}" placeholder="Filter, like *.mp4" aria-label="Filter">
+    </form>
+    <form id="selection-form" method="post" action="/__archive"></form>
     <ul>${fileItems}</ul>
+    <div class="listing-more" id="listing-more">${moreLink}</div>${readmeSection}
     <div class="shared-board">
-      <h2>📋 Shared Board</h2>
-      <textarea id="shared-board-text" placeholder="Type here to share text with everyone..."></textarea>
+      <div class="shared-board-header">
+        <h2>📋 Shared Board</h2>
+        <select id="shared-board-select" aria-label="Board"></select>
+        <button class="shared-board-preview-btn" id="shared-board-preview-btn">Preview</button>
+        <button class="shared-board-history-btn" id="shared-board-history-btn">History</button>
+      </div>
+      <textarea id="shared-board-text" ${boardAttributes}></textarea>
+      <div class="shared-board-rendered" id="shared-board-rendered" hidden></div>
       <div class="shared-board-status" id="shared-board-status"></div>
+      <div class="shared-board-history" id="shared-board-history" hidden></div>
     </div>
   </main>
   <div class="qr-container" id="qr-container">
@@ -142,138 +392,923 @@ export const directoryTemplate = (spec: DirectorySpec): string => {
     <div class="qr-label">Scan to open</div>
   </div>
   <div class="qr-toggle" id="qr-toggle">📱 QR</div>
+  ${dropOverlay}
   <script>
-    const fileInput = document.getElementById('file-input');
-    const uploadBtn = document.getElementById('upload-btn');
-    const uploadStatus = document.getElementById('upload-status');
-    const uploadProgress = document.getElementById('upload-progress');
-    const uploadProgressBar = document.getElementById('upload-progress-bar');
-    let currentXhr = null;
-
-    const resetUploadUI = () => {
-      uploadProgress.style.display = 'none';
-      uploadProgressBar.style.width = '0%';
-      uploadBtn.textContent = 'Upload File';
-      uploadBtn.onclick = () => fileInput.click();
-      fileInput.value = '';
-      currentXhr = null;
-    };
-
-    fileInput.addEventListener('change', () => {
-      const file = fileInput.files[0];
-      if (!file) return;
-
-      uploadStatus.textContent = '';
-      uploadStatus.className = 'upload-status';
-      uploadProgress.style.display = 'block';
-      uploadProgressBar.style.width = '0%';
-      uploadBtn.textContent = 'Cancel Upload';
-      uploadBtn.onclick = () => {
-        if (currentXhr) {
-          currentXhr.abort();
-          resetUploadUI();
-          uploadStatus.textContent = 'Upload cancelled';
-          uploadStatus.className = 'upload-status';
-        }
+    // Upload functionality
+    (function() {
+      const fileInput = document.getElementById('file-input');
+      // The upload controls are left out when the server is read-only.
+      if (!fileInput) return;
+
+      const folderInput = document.getElementById('folder-input');
+      const uploadBtn = document.getElementById('upload-btn');
+      const folderBtn = document.getElementById('folder-btn');
+      const uploadStatus = document.getElementById('upload-status');
+      const uploadList = document.getElementById('upload-list');
+      const dropOverlay = document.getElementById('drop-overlay');
+      // Files are uploaded to the directory being viewed.
+      const uploadDirectory = encodeURIComponent(decodeURIComponent(location.pathname));
+      const uploadUrl = '/__upload?path=' + uploadDirectory;
+      const resumableUrl = '/__upload/resumable?path=' + uploadDirectory;
+      // Large files are sent in chunks, so an upload interrupted by a flaky
+      // connection can resume where it left off instead of starting over.
+      const resumableThreshold = 10 * 1024 * 1024;
+      const chunkSize = 5 * 1024 * 1024;
+      const maxRetries = 10;
+      const queue = [];
+      let uploading = false;
+      let cancelled = false;
+      let currentXhr = null;
+      let currentEntry = null;
+      let succeeded = 0;
+      let failed = 0;
+
+      const setItemState = (entry, state, text) => {
+        entry.item.className = 'upload-item ' + state;
+        entry.status.textContent = text;
       };
 
-      const formData = new FormData();
-      formData.append('file', file);
+      const setProgress = (entry, loaded) => {
+        const percent = entry.file.size ? Math.round((loaded / entry.file.size) * 100) : 100;
+        entry.bar.style.width = percent + '%';
+      };
 
-      const xhr = new XMLHttpRequest();
-      currentXhr = xhr;
-      xhr.upload.onprogress = (e) => {
-        if (e.lengthComputable) {
-          const percent = Math.round((e.loaded / e.total) * 100);
-          uploadProgressBar.style.width = percent + '%';
-        }
+      const resetUploadUI = () => {
+        uploadBtn.textContent = 'Upload Files';
+        uploadBtn.onclick = () => fileInput.click();
+        folderBtn.disabled = false;
+        fileInput.value = '';
+        folderInput.value = '';
+        uploading = false;
+        currentXhr = null;
+        currentEntry = null;
       };
-      xhr.onload = () => {
+
+      const finishUploads = () => {
         resetUploadUI();
+        if (failed > 0) {
+          uploadStatus.textContent = failed + ' of ' + (succeeded + failed) + ' uploads failed';
+          uploadStatus.className = 'upload-status error';
+        } else {
+          uploadStatus.textContent = 'Upload successful!';
+          uploadStatus.className = 'upload-status success';
+        }
+        if (succeeded > 0) setTimeout(() => location.reload(), failed > 0 ? 3000 : 1000);
+        succeeded = 0;
+        failed = 0;
+      };
+
+      const getError = (text, fallback) => {
         try {
-          const result = JSON.parse(xhr.responseText);
+          const result = JSON.parse(text);
+          const file = result.files && result.files[0];
+          return (file && file.error) || result.error || fallback;
+        } catch (err) {
+          return fallback;
+        }
+      };
+
+      // Sends a request with progress reporting. Errors are marked as fatal
+      // when retrying the same request would not help.
+      const send = (method, url, headers, body, onProgress) => new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        currentXhr = xhr;
+        xhr.upload.onprogress = (e) => {
+          if (e.lengthComputable && onProgress) onProgress(e.loaded);
+        };
+        xhr.onload = () => {
           if (xhr.status >= 200 && xhr.status < 300) {
-            uploadStatus.textContent = 'Upload successful!';
-            uploadStatus.className = 'upload-status success';
-            setTimeout(() => location.reload(), 1000);
-          } else {
-            uploadStatus.textContent = result.error || 'Upload failed';
-            uploadStatus.className = 'upload-status error';
+            resolve(xhr);
+            return;
+          }
+          const error = new Error(getError(xhr.responseText, 'Upload failed'));
+          error.fatal = xhr.status < 500;
+          reject(error);
+        };
+        xhr.onerror = () => reject(new Error('Upload failed'));
+        xhr.onabort = () => reject(Object.assign(new Error('Upload cancelled'), { fatal: true }));
+        xhr.open(method, url);
+        for (const [key, value] of Object.entries(headers)) xhr.setRequestHeader(key, value);
+        xhr.send(body);
+      });
+
+      const uploadWhole = async (entry) => {
+        const formData = new FormData();
+        formData.append('file', entry.file, entry.path);
+        const xhr = await send('POST', uploadUrl, {}, formData, (loaded) => setProgress(entry, loaded));
+        const file = JSON.parse(xhr.responseText).files[0];
+        return { action: file.action, filename: file.filename };
+      };
+
+      // Identifies a file, so its upload can be resumed after a page reload.
+      const storageKey = (entry) => 'serve-box-upload:' + uploadDirectory + ':' + entry.path + ':' + entry.file.size + ':' + entry.file.lastModified;
+
+      const toBase64 = (text) => btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+
+      // The request that completes a resumable upload says how it was stored.
+      const readStored = (xhr) => {
+        const action = xhr.getResponseHeader('Upload-Action');
+        const filename = xhr.getResponseHeader('Upload-Filename');
+        return action ? { action, filename: decodeURIComponent(filename || '') } : null;
+      };
+
+      const describeStored = (stored) => {
+        if (!stored) return 'Done';
+        if (stored.action === 'renamed') return 'Saved as ' + stored.filename.split('/').pop();
+        if (stored.action === 'overwritten') return 'Replaced existing file';
+        if (stored.action === 'versioned') return 'Replaced, old version kept';
+        return 'Done';
+      };
+
+      const uploadResumable = async (entry) => {
+        const tus = { 'Tus-Resumable': '1.0.0' };
+        let offset = null;
+
+        // Pick up an upload of the same file that was interrupted earlier.
+        entry.location = localStorage.getItem(storageKey(entry));
+        if (entry.location) {
+          const res = await fetch(entry.location, { method: 'HEAD', headers: tus }).catch(() => null);
+          if (res && res.ok) offset = Number(res.headers.get('Upload-Offset'));
+          else entry.location = null;
+        }
+        if (!entry.location) {
+          const xhr = await send('POST', resumableUrl, {
+            ...tus,
+            'Upload-Length': String(entry.file.size),
+            'Upload-Metadata': 'filename ' + toBase64(entry.path),
+          }, null);
+          entry.location = xhr.getResponseHeader('Location');
+          entry.stored = readStored(xhr);
+          offset = 0;
+          localStorage.setItem(storageKey(entry), entry.location);
+        }
+
+        let failures = 0;
+        let stored = entry.stored;
+        while (offset < entry.file.size) {
+          try {
+            const xhr = await send('PATCH', entry.location, {
+              ...tus,
+              'Upload-Offset': String(offset),
+              'Content-Type': 'application/offset+octet-stream',
+            }, entry.file.slice(offset, offset + chunkSize), (loaded) => setProgress(entry, offset + loaded));
+            offset = Number(xhr.getResponseHeader('Upload-Offset'));
+            stored = readStored(xhr) || stored;
+            failures = 0;
+          } catch (err) {
+            failures++;
+            if (err.fatal || cancelled || failures > maxRetries) throw err;
+
+            setItemState(entry, '', 'Connection lost, retrying...');
+            await new Promise((resolve) => setTimeout(resolve, Math.min(30000, 1000 * 2 ** failures)));
+            if (cancelled) throw err;
+
+            const res = await fetch(entry.location, { method: 'HEAD', headers: tus }).catch(() => null);
+            if (res && res.ok) offset = Number(res.headers.get('Upload-Offset'));
+            setItemState(entry, '', 'Uploading...');
           }
+          setProgress(entry, offset);
+        }
+
+        localStorage.removeItem(storageKey(entry));
+        return stored;
+      };
+
+      const uploadNext = async () => {
+        const entry = queue.shift();
+        if (!entry) {
+          finishUploads();
+          return;
+        }
+
+        currentEntry = entry;
+        setItemState(entry, '', 'Uploading...');
+        try {
+          const stored = entry.file.size >= resumableThreshold ? await uploadResumable(entry) : await uploadWhole(entry);
+          succeeded++;
+          entry.bar.style.width = '100%';
+          setItemState(entry, 'success', describeStored(stored));
         } catch (err) {
-          uploadStatus.textContent = 'Upload failed';
-          uploadStatus.className = 'upload-status error';
+          if (cancelled) return;
+          failed++;
+          setItemState(entry, 'error', err.message);
         }
+        uploadNext();
       };
-      xhr.onerror = () => {
+
+      const cancelUploads = () => {
+        cancelled = true;
+        for (const entry of queue.splice(0)) setItemState(entry, 'error', 'Cancelled');
+        if (currentEntry) {
+          setItemState(currentEntry, 'error', 'Cancelled');
+          // Throw away the partial data of a resumable upload.
+          if (currentEntry.location) {
+            fetch(currentEntry.location, { method: 'DELETE', headers: { 'Tus-Resumable': '1.0.0' } }).catch(() => {});
+            localStorage.removeItem(storageKey(currentEntry));
+          }
+        }
+        if (currentXhr) currentXhr.abort();
         resetUploadUI();
-        uploadStatus.textContent = 'Upload failed';
+        uploadStatus.textContent = 'Upload cancelled';
+        uploadStatus.className = 'upload-status';
+      };
+
+      // Adds the given files to the queue, and starts uploading them one by
+      // one unless an upload is already in progress.
+      const enqueue = (files) => {
+        if (files.length === 0) return;
+
+        uploadStatus.textContent = '';
+        uploadStatus.className = 'upload-status';
+        for (const { file, path } of files) {
+          const item = document.createElement('div');
+          item.className = 'upload-item';
+          item.innerHTML = '<span class="upload-item-name"></span><div class="upload-progress"><div class="upload-progress-bar"></div></div><span class="upload-item-status">Waiting</span>';
+          item.querySelector('.upload-item-name').textContent = path;
+          uploadList.appendChild(item);
+          queue.push({
+            file,
+            path,
+            item,
+            bar: item.querySelector('.upload-progress-bar'),
+            status: item.querySelector('.upload-item-status'),
+          });
+        }
+
+        if (uploading) return;
+        uploading = true;
+        cancelled = false;
+        uploadBtn.textContent = 'Cancel Upload';
+        folderBtn.disabled = true;
+        uploadBtn.onclick = cancelUploads;
+        uploadNext();
+      };
+
+      // Recursively collects the files within a dropped file system entry.
+      const readEntry = (entry, prefix) => new Promise((resolve) => {
+        if (entry.isFile) {
+          entry.file((file) => resolve([{ file, path: prefix + file.name }]), () => resolve([]));
+        } else if (entry.isDirectory) {
+          const reader = entry.createReader();
+          const children = [];
+          const readBatch = () => reader.readEntries(async (batch) => {
+            if (batch.length > 0) {
+              children.push(...batch);
+              readBatch();
+              return;
+            }
+            const nested = await Promise.all(children.map((child) => readEntry(child, prefix + entry.name + '/')));
+            resolve(nested.flat());
+          }, () => resolve([]));
+          readBatch();
+        } else {
+          resolve([]);
+        }
+      });
+
+      uploadBtn.onclick = () => fileInput.click();
+      folderBtn.onclick = () => folderInput.click();
+      fileInput.addEventListener('change', () => {
+        enqueue([...fileInput.files].map((file) => ({ file, path: file.name })));
+      });
+      folderInput.addEventListener('change', () => {
+        enqueue([...folderInput.files].map((file) => ({ file, path: file.webkitRelativePath || file.name })));
+      });
+
+      let dragDepth = 0;
+      const hasFiles = (e) => e.dataTransfer && [...e.dataTransfer.types].includes('Files');
+      document.addEventListener('dragenter', (e) => {
+        if (!hasFiles(e)) return;
+        dragDepth++;
+        dropOverlay.classList.add('visible');
+      });
+      document.addEventListener('dragleave', (e) => {
+        if (!hasFiles(e)) return;
+        dragDepth = Math.max(0, dragDepth - 1);
+        if (dragDepth === 0) dropOverlay.classList.remove('visible');
+      });
+      document.addEventListener('dragover', (e) => {
+        if (hasFiles(e)) e.preventDefault();
+      });
+      document.addEventListener('drop', async (e) => {
+        if (!hasFiles(e)) return;
+        dragDepth = 0;
+        dropOverlay.classList.remove('visible');
+        // Files dropped onto the board are attached to it instead.
+        if (e.defaultPrevented) return;
+        e.preventDefault();
+
+        // The entries have to be read before the event handler yields.
+        const entries = [...e.dataTransfer.items]
+          .map((item) => item.webkitGetAsEntry && item.webkitGetAsEntry())
+          .filter(Boolean);
+        if (entries.length === 0) {
+          enqueue([...e.dataTransfer.files].map((file) => ({ file, path: file.name })));
+          return;
+        }
+        const files = await Promise.all(entries.map((entry) => readEntry(entry, '')));
+        enqueue(files.flat());
+      });
+    })();
+
+    // Sorting and filtering the listing without reloading the page
+    (function() {
+      const controls = document.getElementById('listing-controls');
+      const filterInput = document.getElementById('listing-filter');
+      const more = document.getElementById('listing-more');
+      let filterTimeout = null;
+      let latest = null;
+
+      // Loads the listing with other query parameters and swaps it in.
+      const showListing = async (search) => {
+        const url = location.pathname + search;
+        const request = fetch(url, { headers: { Accept: 'text/html' } });
+        latest = request;
+        try {
+          const html = await (await request).text();
+          if (request !== latest) return;
+
+          const page = new DOMParser().parseFromString(html, 'text/html');
+          document.querySelector('main > ul').innerHTML = page.querySelector('main > ul').innerHTML;
+          document.getElementById('listing-sort').innerHTML = page.getElementById('listing-sort').innerHTML;
+          more.innerHTML = page.getElementById('listing-more').innerHTML;
+          history.replaceState(null, '', url);
+        } catch {
+          location.href = url;
+        }
+      };
+
+      const currentSearch = () => {
+        const query = new URLSearchParams(new FormData(controls));
+        if (!query.get('filter')) query.delete('filter');
+        return '?' + query.toString();
+      };
+
+      controls.addEventListener('click', (e) => {
+        const link = e.target.closest('a[data-sort]');
+        if (!link) return;
+        e.preventDefault();
+        showListing(new URL(link.href).search);
+      });
+      controls.addEventListener('submit', (e) => {
+        e.preventDefault();
+        clearTimeout(filterTimeout);
+        showListing(currentSearch());
+      });
+      filterInput.addEventListener('input', () => {
+        clearTimeout(filterTimeout);
+        filterTimeout = setTimeout(() => showListing(currentSearch()), 300);
+      });
+
+      // Adds the next page of a long listing to the end of it. The link to
+      // the parent folder is on every page, so it is only kept once.
+      let loadingMore = false;
+      let observer = null;
+      const loadMore = async () => {
+        const link = more.querySelector('a');
+        if (!link || loadingMore) return;
+
+        loadingMore = true;
+        const request = latest;
+        try {
+          const html = await (await fetch(link.href, { headers: { Accept: 'text/html' } })).text();
+          if (request !== latest) return;
+
+          const page = new DOMParser().parseFromString(html, 'text/html');
+          const items = [...page.querySelectorAll('main > ul > li')].filter((item) => {
+            const anchor = item.querySelector('a');
+            return !anchor || anchor.textContent !== '..';
+          });
+          document.querySelector('main > ul').append(...items);
+          more.innerHTML = page.getElementById('listing-more').innerHTML;
+        } catch {
+          location.href = link.href;
+        } finally {
+          loadingMore = false;
+          // Observing again checks whether the end is still in view.
+          if (observer) {
+            observer.unobserve(more);
+            observer.observe(more);
+          }
+        }
+      };
+
+      more.addEventListener('click', (e) => {
+        if (!e.target.closest('a')) return;
+        e.preventDefault();
+        loadMore();
+      });
+
+      // Loads the next page as soon as the end of the listing scrolls into
+      // view.
+      if ('IntersectionObserver' in window) {
+        observer = new IntersectionObserver((observed) => {
+          if (observed.some((entry) => entry.isIntersecting)) loadMore();
+        }, { rootMargin: '400px' });
+        observer.observe(more);
+      }
+    })();
+
+    // Searching for files in all folders below the one being viewed
+    (function() {
+      const form = document.getElementById('search-form');
+      const input = document.getElementById('search-input');
+      const results = document.getElementById('search-results');
+      let searchTimeout = null;
+      let latest = null;
+
+      const showResults = (nodes) => {
+        results.replaceChildren(...nodes);
+        results.hidden = nodes.length === 0;
+      };
+
+      const showMessage = (text) => {
+        const summary = document.createElement('div');
+        summary.className = 'search-summary';
+        summary.textContent = text;
+        showResults([summary]);
+        return summary;
+      };
+
+      const search = async () => {
+        const text = input.value.trim();
+        if (!text) {
+          latest = null;
+          showResults([]);
+          return;
+        }
+
+        const query = new URLSearchParams({ q: text, path: decodeURIComponent(location.pathname) });
+        const request = fetch('/__search?' + query.toString());
+        latest = request;
+        try {
+          const res = await request;
+          const data = await res.json();
+          if (request !== latest) return;
+          if (!res.ok) {
+            showMessage(data.error || 'Search failed');
+            return;
+          }
+
+          const count = data.results.length;
+          let summary = count === 1 ? '1 match' : count + ' matches';
+          if (count === 0) summary = 'Nothing found';
+          if (data.truncated) summary += ', stopped searching after that';
+
+          const list = document.createElement('ul');
+          for (const result of data.results) {
+            const link = document.createElement('a');
+            link.href = result.path.split('/').map(encodeURIComponent).join('/');
+            link.className = result.type;
+            link.textContent = result.path;
+            link.title = result.path;
+            const item = document.createElement('li');
+            item.append(link);
+            list.append(item);
+          }
+          showResults([showMessage(summary), list]);
+        } catch {
+          if (request === latest) showMessage('Search failed');
+        }
+      };
+
+      form.addEventListener('submit', (e) => {
+        e.preventDefault();
+        clearTimeout(searchTimeout);
+        search();
+      });
+      input.addEventListener('input', () => {
+        clearTimeout(searchTimeout);
+        searchTimeout = setTimeout(search, 300);
+      });
+    })();
+
+    // Choosing entries of the listing to download them as one archive
+    (function() {
+      const button = document.getElementById('selection-download');
+
+      const update = () => {
+        const count = document.querySelectorAll('.file-select:checked').length;
+        button.disabled = count === 0;
+        button.textContent = count === 0 ? 'Download selected' : 'Download ' + count + ' selected';
+      };
+
+      document.addEventListener('change', (e) => {
+        if (e.target.classList.contains('file-select')) update();
+      });
+      // The listing is swapped out when it is sorted or filtered, which
+      // clears the choice.
+      new MutationObserver(update).observe(document.querySelector('main > ul'), { childList: true });
+      update();
+    })();
+
+    // Switching between the list and the grid of thumbnails
+    (function() {
+      const button = document.getElementById('view-toggle');
+      const list = document.querySelector('main > ul');
+
+      const setGrid = (enabled) => {
+        list.classList.toggle('grid', enabled);
+        button.setAttribute('aria-pressed', String(enabled));
+        button.textContent = enabled ? 'List' : 'Grid';
+      };
+
+      button.addEventListener('click', () => {
+        const enabled = !list.classList.contains('grid');
+        setGrid(enabled);
+        localStorage.setItem('serve-box-view', enabled ? 'grid' : 'list');
+      });
+      if (localStorage.getItem('serve-box-view') === 'grid') setGrid(true);
+    })();
+
+    // File management functionality
+    (function() {
+      const mkdirBtn = document.getElementById('mkdir-btn');
+      // The controls are left out when the server is read-only.
+      if (!mkdirBtn) return;
+
+      const uploadStatus = document.getElementById('upload-status');
+      const fileList = document.querySelector('main > ul');
+      const pathname = decodeURIComponent(location.pathname);
+      const directory = pathname.endsWith('/') ? pathname : pathname + '/';
+
+      // Sends a request to one of the file management endpoints, and reloads
+      // the listing once it succeeds.
+      const request = async (endpoint, body) => {
+        try {
+          const res = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+          });
+          const data = await res.json();
+          if (data.success) {
+            location.reload();
+            return;
+          }
+          uploadStatus.textContent = data.error || 'Something went wrong';
+        } catch {
+          uploadStatus.textContent = 'Something went wrong';
+        }
         uploadStatus.className = 'upload-status error';
       };
-      xhr.open('POST', '/__upload');
-      xhr.send(formData);
-    });
+
+      mkdirBtn.addEventListener('click', () => {
+        const name = prompt('Name of the new folder');
+        if (name) request('/__mkdir', { path: directory + name });
+      });
+
+      fileList.addEventListener('click', (e) => {
+        const button = e.target.closest('button[data-action]');
+        if (!button) return;
+
+        const filePath = button.dataset.path.endsWith('/') ? button.dataset.path.slice(0, -1) : button.dataset.path;
+        const parent = filePath.slice(0, filePath.lastIndexOf('/') + 1);
+        const name = filePath.slice(parent.length);
+
+        if (button.dataset.action === 'delete') {
+          if (confirm('Delete "' + name + '"? This cannot be undone.')) request('/__delete', { path: filePath });
+          return;
+        }
+
+        // A name starting with a slash moves the file to that path instead.
+        const target = prompt('New name, or a path starting with / to move it', name);
+        if (!target || target === name) return;
+        request('/__move', { from: filePath, to: target.startsWith('/') ? target : parent + target });
+      });
+    })();
 
     // Shared Board functionality
     (function() {
       const boardText = document.getElementById('shared-board-text');
       const boardStatus = document.getElementById('shared-board-status');
+      const boardSelect = document.getElementById('shared-board-select');
+      const historyButton = document.getElementById('shared-board-history-btn');
+      const historyPanel = document.getElementById('shared-board-history');
+      const previewButton = document.getElementById('shared-board-preview-btn');
+      const rendered = document.getElementById('shared-board-rendered');
+      // The textarea starts out read-only when the whole server is.
+      const serverReadOnly = boardText.readOnly;
       let saveTimeout = null;
       let lastSavedContent = '';
+      // The version of the board the text in the textarea is based on.
+      let version = 0;
+      // The board as someone else saved it, while it conflicts with ours.
+      let theirs = null;
+      let events = null;
+      let name = localStorage.getItem('serve-box-board') || 'default';
 
-      const loadBoard = async () => {
-        try {
-          const res = await fetch('/__board');
-          const data = await res.json();
-          boardText.value = data.content || '';
+      const boardUrl = () => name === 'default' ? '/__board' : '/__board/' + encodeURIComponent(name);
+      const revisionsUrl = () => '/__board/' + encodeURIComponent(name) + '/revisions';
+
+      const showStatus = (text) => {
+        boardStatus.textContent = text;
+      };
+
+      // Shows a newer board, unless it would overwrite unsaved changes.
+      const applyBoard = (board) => {
+        if (board.version < version) return;
+        if (boardText.value !== lastSavedContent && board.content !== boardText.value) return;
+
+        const focused = document.activeElement === boardText;
+        const { selectionStart, selectionEnd } = boardText;
+        boardText.value = board.content || '';
+        if (focused) boardText.setSelectionRange(selectionStart, selectionEnd);
+        lastSavedContent = boardText.value;
+        version = board.version;
+        theirs = null;
+      };
+
+      // Lets the user pick between their text and the one saved meanwhile.
+      const showConflict = (board) => {
+        theirs = board;
+        version = board.version;
+        showStatus('Someone else changed the board. Keep typing to overwrite their changes, or ');
+        const load = document.createElement('a');
+        load.href = '#';
+        load.textContent = 'load their version';
+        load.addEventListener('click', (event) => {
+          event.preventDefault();
+          clearTimeout(saveTimeout);
           lastSavedContent = boardText.value;
-        } catch (err) {
-          boardStatus.textContent = 'Failed to load board';
-        }
+          applyBoard(theirs);
+          showStatus('');
+        });
+        boardStatus.appendChild(load);
       };
 
       const saveBoard = async () => {
         const content = boardText.value;
         if (content === lastSavedContent) return;
-        
-        boardStatus.textContent = 'Saving...';
+
+        showStatus('Saving...');
         try {
-          const res = await fetch('/__board', {
+          const res = await fetch(boardUrl(), {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', 'If-Match': '"' + version + '"' },
             body: JSON.stringify({ content })
           });
+          const data = await res.json();
           if (res.ok) {
             lastSavedContent = content;
-            boardStatus.textContent = 'Saved';
-            setTimeout(() => { if (boardStatus.textContent === 'Saved') boardStatus.textContent = ''; }, 2000);
+            version = Math.max(version, data.version);
+            theirs = null;
+            showStatus('Saved');
+            setTimeout(() => { if (boardStatus.textContent === 'Saved') showStatus(''); }, 2000);
+          } else if (res.status === 409) {
+            showConflict(data);
+          } else if (res.status === 413) {
+            showStatus('Not saved: ' + data.error);
+          } else if (res.status === 429) {
+            // Try again once the server accepts changes from us again.
+            showStatus('Not saved yet: ' + data.error);
+            clearTimeout(saveTimeout);
+            saveTimeout = setTimeout(saveBoard, Number(res.headers.get('Retry-After') || 10) * 1000);
           } else {
-            boardStatus.textContent = 'Failed to save';
+            showStatus('Failed to save');
           }
         } catch (err) {
-          boardStatus.textContent = 'Failed to save';
+          showStatus('Failed to save');
         }
       };
 
       boardText.addEventListener('input', () => {
+        if (boardText.readOnly) return;
         clearTimeout(saveTimeout);
         saveTimeout = setTimeout(saveBoard, 500);
       });
 
-      // Poll for updates from other users
-      setInterval(async () => {
-        if (document.activeElement === boardText) return;
+      // Receive changes from other users as they happen. The browser
+      // reconnects by itself when the connection drops.
+      const connect = () => {
+        if (events) events.close();
+        events = new EventSource(boardUrl());
+        events.addEventListener('board', (event) => {
+          applyBoard(JSON.parse(event.data));
+          if (boardStatus.textContent === 'Disconnected') showStatus('');
+          if (!historyPanel.hidden) loadHistory();
+          if (!rendered.hidden) loadRendered();
+        });
+        events.addEventListener('error', () => {
+          if (!theirs) showStatus('Disconnected');
+        });
+      };
+
+      // Shows the board rendered as Markdown instead of the textarea.
+      const loadRendered = async () => {
         try {
-          const res = await fetch('/__board');
-          const data = await res.json();
-          if (data.content !== lastSavedContent) {
-            boardText.value = data.content || '';
-            lastSavedContent = boardText.value;
+          const res = await fetch('/__board/' + encodeURIComponent(name) + '/rendered');
+          rendered.innerHTML = (await res.json()).html;
+        } catch {
+          showStatus('Failed to render the board');
+        }
+      };
+
+      const setPreview = (enabled) => {
+        rendered.hidden = !enabled;
+        boardText.hidden = enabled;
+        previewButton.classList.toggle('active', enabled);
+        localStorage.setItem('serve-box-board-preview', enabled ? 'true' : '');
+        if (enabled) loadRendered();
+      };
+
+      previewButton.addEventListener('click', async () => {
+        // Show what was typed last, rather than what was saved before it.
+        if (rendered.hidden) {
+          clearTimeout(saveTimeout);
+          if (!boardText.readOnly) await saveBoard();
+        }
+        setPreview(rendered.hidden);
+      });
+
+      // Uploads files to the folder being viewed, and links to them from
+      // the board where the cursor is.
+      const attachFiles = async (files) => {
+        const directory = decodeURIComponent(location.pathname);
+        for (const file of files) {
+          showStatus('Uploading ' + file.name + '...');
+          try {
+            const formData = new FormData();
+            formData.append('file', file, file.name);
+            const res = await fetch('/__upload?path=' + encodeURIComponent(directory), { method: 'POST', body: formData });
+            const data = await res.json();
+            const result = data.files && data.files[0];
+            if (!result || !result.success) {
+              showStatus('Failed to attach ' + file.name + ': ' + ((result && result.error) || data.error));
+              continue;
+            }
+
+            const url = location.pathname + result.filename.split('/').map(encodeURIComponent).join('/')
+              .replace(/[()]/g, (character) => '%' + character.charCodeAt(0).toString(16));
+            const label = result.filename.split('/').pop().split('[').join('(').split(']').join(')');
+            const link = (file.type.startsWith('image/') ? '!' : '') + '[' + label + '](' + url + ')';
+            const start = boardText.selectionStart;
+            const before = start > 0 && boardText.value[start - 1] !== String.fromCharCode(10) ? ' ' : '';
+            boardText.setRangeText(before + link, start, boardText.selectionEnd, 'end');
+            boardText.dispatchEvent(new Event('input'));
+            showStatus('Attached ' + result.filename);
+          } catch {
+            showStatus('Failed to attach ' + file.name);
           }
+        }
+      };
+
+      const hasDraggedFiles = (event) => event.dataTransfer && [...event.dataTransfer.types].includes('Files');
+
+      // Pasted images are named after the time they were pasted, as they
+      // are all called the same otherwise.
+      boardText.addEventListener('paste', (event) => {
+        const files = [...event.clipboardData.files];
+        if (boardText.readOnly || files.length === 0) return;
+
+        event.preventDefault();
+        const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+        attachFiles(files.map((file, index) => {
+          const extension = (file.type.split('/')[1] || 'bin').split('+')[0];
+          const suffix = files.length > 1 ? '-' + (index + 1) : '';
+          return new File([file], 'pasted-' + stamp + suffix + '.' + extension, { type: file.type });
+        }));
+      });
+      boardText.addEventListener('dragover', (event) => {
+        if (boardText.readOnly || !hasDraggedFiles(event)) return;
+        event.preventDefault();
+        boardText.classList.add('dragging');
+      });
+      boardText.addEventListener('dragleave', () => boardText.classList.remove('dragging'));
+      boardText.addEventListener('drop', (event) => {
+        boardText.classList.remove('dragging');
+        if (boardText.readOnly || !hasDraggedFiles(event)) return;
+        // Keeps the listing from uploading the files a second time.
+        event.preventDefault();
+        attachFiles([...event.dataTransfer.files]);
+      });
+
+      const formatSize = (size) => size < 1024 ? size + ' B' : (size / 1024).toFixed(1) + ' KB';
+
+      // Lists the revisions of the board, each of which can be viewed or
+      // restored.
+      const loadHistory = async () => {
+        let revisions = [];
+        try {
+          const res = await fetch(revisionsUrl());
+          revisions = (await res.json()).revisions;
+        } catch {}
+
+        historyPanel.textContent = '';
+        if (revisions.length === 0) {
+          historyPanel.textContent = 'No revisions yet';
+          return;
+        }
+
+        for (const revision of revisions) {
+          const item = document.createElement('div');
+          item.className = 'shared-board-history-item';
+          const details = document.createElement('span');
+          details.textContent = 'v' + revision.version + ' · ' + new Date(revision.savedAt).toLocaleString() + ' · ' + revision.ip + ' · ' + formatSize(revision.size);
+          item.appendChild(details);
+
+          const url = revisionsUrl() + '/' + revision.version;
+          const view = document.createElement('button');
+          view.textContent = 'View';
+          view.addEventListener('click', async () => {
+            const next = item.nextElementSibling;
+            if (next && next.tagName === 'PRE') {
+              next.remove();
+              return;
+            }
+            const preview = document.createElement('pre');
+            try {
+              const res = await fetch(url);
+              preview.textContent = (await res.json()).content || '(empty)';
+            } catch {
+              preview.textContent = 'Failed to load the revision';
+            }
+            item.after(preview);
+          });
+          item.appendChild(view);
+
+          if (!boardText.readOnly) {
+            const restore = document.createElement('button');
+            restore.textContent = 'Restore';
+            restore.addEventListener('click', async () => {
+              // Whatever was typed meanwhile gives way to the restored text.
+              clearTimeout(saveTimeout);
+              lastSavedContent = boardText.value;
+              try {
+                const res = await fetch(url + '/restore', { method: 'POST' });
+                const data = await res.json();
+                showStatus(res.ok ? 'Restored v' + revision.version : 'Failed to restore: ' + data.error);
+              } catch {
+                showStatus('Failed to restore');
+              }
+            });
+            item.appendChild(restore);
+          }
+
+          historyPanel.appendChild(item);
+        }
+      };
+
+      historyButton.addEventListener('click', () => {
+        historyPanel.hidden = !historyPanel.hidden;
+        if (!historyPanel.hidden) loadHistory();
+      });
+
+      // Fills the switcher with the boards that exist, along with the one
+      // being shown even if nothing was written to it yet.
+      const loadBoards = async () => {
+        let boards = [];
+        try {
+          const res = await fetch('/__boards');
+          boards = (await res.json()).boards;
         } catch {}
-      }, 3000);
+        if (!boards.some((board) => board.name === name)) boards.push({ name, readOnly: false });
 
-      loadBoard();
+        boardSelect.textContent = '';
+        for (const board of boards) {
+          const option = new Option(board.name, board.name, false, board.name === name);
+          option.dataset.readOnly = board.readOnly ? 'true' : '';
+          boardSelect.appendChild(option);
+        }
+        if (!serverReadOnly) boardSelect.appendChild(new Option('+ New board', ''));
+        boardText.readOnly = serverReadOnly || boardSelect.selectedOptions[0].dataset.readOnly === 'true';
+      };
+
+      const switchBoard = async (newName) => {
+        // Save what was typed before leaving the board.
+        clearTimeout(saveTimeout);
+        if (!boardText.readOnly) await saveBoard();
+
+        name = newName;
+        localStorage.setItem('serve-box-board', name);
+        boardText.value = '';
+        lastSavedContent = '';
+        version = 0;
+        theirs = null;
+        showStatus('');
+        historyPanel.hidden = true;
+        rendered.textContent = '';
+        await loadBoards();
+        connect();
+      };
+
+      boardSelect.addEventListener('change', () => {
+        if (boardSelect.value) {
+          switchBoard(boardSelect.value);
+          return;
+        }
+
+        const newName = prompt('Name of the new board (letters, numbers, - and _)');
+        if (newName && /^[A-Za-z0-9_-]{1,64}$/.test(newName)) {
+          switchBoard(newName);
+          return;
+        }
+        if (newName) alert('Board names can only contain letters, numbers, - and _');
+        boardSelect.value = name;
+      });
+
+      if (localStorage.getItem('serve-box-board-preview')) setPreview(true);
+      loadBoards().then(connect);
     })();
 
     // QR Code generation and toggle
@@ -322,6 +1357,131 @@ export const directoryTemplate = (spec: DirectorySpec): string => {
 </html>`;
 };
 
+/**
+ * Renders the part of a preview page that shows the file.
+ */
+const renderPreview = (
+  raw: string,
+  name: string,
+  view: PreviewView,
+): string => {
+  const source = encodeHTML(raw);
+  switch (view.kind) {
+    case 'markdown':
+      return `<article class="preview-markdown">${view.html}</article>`;
+    case 'code':
+      return `<pre class="preview-code"><code>${view.lines
+        .map(
+          (line, index) =>
+            `<span class="line" id="L${index + 1}" data-line="${
+              index + 1
+            }">${line}</span>`,
+        )
+        .join('\n')}</code></pre>`;
+    case 'image': {
+      const previous = view.previous
+        ? `<a href="${encodeHTML(
+            view.previous,
+          )}" id="preview-previous" rel="prev">← Previous</a>`
+        : '<span></span>';
+      const next = view.next
+        ? `<a href="${encodeHTML(
+            view.next,
+          )}" id="preview-next" rel="next">Next →</a>`
+        : '<span></span>';
+      return `<figure class="preview-image"><img src="${source}" alt="${encodeHTML(
+        name,
+      )}"></figure><nav class="preview-nav">${previous}${next}</nav>`;
+    }
+    case 'audio':
+    case 'video':
+      return `<${
+        view.kind
+      } class="preview-player" controls preload="metadata"><source src="${source}" type="${encodeHTML(
+        view.mimeType,
+      )}"></${view.kind}>`;
+    default:
+      return `<p class="preview-message">${encodeHTML(view.message)}</p>`;
+  }
+};
+
+export const previewTemplate = (spec: PreviewSpec): string => {
+  const { name, paths, raw, size, view } = spec;
+
+  const pathLinks = paths
+    .map(
+      (p, i) =>
+        `<a href="/${encodeHTML(p.url)}">${i > 0 ? '<i>/</i>' : ''}${encodeHTML(
+          p.name,
+        )}</a>`,
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${encodeHTML(name)}</title>
+  <style>
+    body { margin: 0; padding: 30px; background: #fff; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Oxygen", "Ubuntu", "Cantarell", "Fira Sans", "Droid Sans", "Helvetica Neue", sans-serif; -webkit-font-smoothing: antialiased; }
+    main { max-width: 920px; }
+    header { display: flex; justify-content: space-between; flex-wrap: wrap; align-items: center; gap: 10px; margin-bottom: 20px; }
+    h1 { font-size: 18px; font-weight: 500; margin: 0; color: #000; overflow-wrap: anywhere; }
+    h1 a { color: #000; text-decoration: none; }
+    h1 i { font-style: normal; }
+    .preview-links { display: flex; align-items: center; gap: 10px; font-size: 12px; color: #666; }
+    .preview-links a { color: #0076FF; text-decoration: none; }
+    .preview-code { margin: 0; padding: 10px 0; border: 1px solid #eee; border-radius: 4px; background: #fafafa; font-family: Menlo, Consolas, monospace; font-size: 12px; line-height: 1.5; overflow-x: auto; tab-size: 4; }
+    .preview-code .line { display: inline-block; min-width: 100%; padding-right: 10px; box-sizing: border-box; }
+    .preview-code .line::before { content: attr(data-line); display: inline-block; width: 4em; margin-right: 1em; padding-right: 0.5em; color: #aaa; text-align: right; border-right: 1px solid #eee; -webkit-user-select: none; user-select: none; }
+    .preview-code .line:target { background: #fff8c5; }
+    .preview-code .comment { color: #6a737d; }
+    .preview-code .string { color: #032f62; }
+    .preview-code .number { color: #005cc5; }
+    .preview-code .keyword { color: #d73a49; }
+    .preview-code .tag { color: #22863a; }
+    .preview-markdown { font-size: 14px; line-height: 1.6; overflow-wrap: break-word; }
+    .preview-markdown a { color: #0076FF; }
+    .preview-markdown img { max-width: 100%; }
+    .preview-markdown code { font-family: Menlo, Consolas, monospace; font-size: 12px; background: #f5f5f5; padding: 1px 4px; border-radius: 3px; }
+    .preview-markdown pre { background: #f5f5f5; padding: 8px 10px; border-radius: 4px; overflow-x: auto; }
+    .preview-markdown pre code { padding: 0; }
+    .preview-markdown blockquote { margin: 0; padding-left: 10px; border-left: 3px solid #ddd; color: #666; }
+    .preview-markdown li.task { list-style: none; margin-left: -18px; }
+    .preview-image { margin: 0; text-align: center; }
+    .preview-image img { max-width: 100%; max-height: 80vh; }
+    .preview-nav { display: flex; justify-content: space-between; margin-top: 10px; font-size: 13px; }
+    .preview-nav a { color: #0076FF; text-decoration: none; }
+    .preview-player { display: block; width: 100%; max-height: 80vh; }
+    .preview-message { font-size: 14px; color: #666; }
+    @media (min-width: 992px) { body { padding: 45px; } h1 { font-size: 15px; } }
+  </style>
+</head>
+<body>
+  <main>
+    <header>
+      <h1>${pathLinks}</h1>
+      <span class="preview-links">${encodeHTML(size)}<a href="${encodeHTML(
+    raw,
+  )}">Raw</a><a href="${encodeHTML(raw)}" download>Download</a></span>
+    </header>
+    ${renderPreview(raw, name, view)}
+  </main>
+  <script>
+    // The arrow keys go to the previous and next images.
+    const arrowLinks = { ArrowLeft: 'preview-previous', ArrowRight: 'preview-next' };
+    document.addEventListener('keydown', (e) => {
+      if (e.target !== document.body || e.altKey || e.ctrlKey || e.metaKey) return;
+
+      const link = arrowLinks[e.key] && document.getElementById(arrowLinks[e.key]);
+      if (link) link.click();
+    });
+  </script>
+</body>
+</html>`;
+};
+
 export const errorTemplate = (spec: ErrorSpec): string => {
   const { statusCode, message } = spec;
   return `<!DOCTYPE html>
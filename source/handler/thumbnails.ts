@@ -0,0 +1,405 @@
+// source/handler/thumbnails.ts
+// Small previews of images, shown in the grid view of the listing and served
+// by the `/__thumbnail` endpoint. Images are decoded and scaled down in
+// JavaScript, so no native libraries are needed, and the results are cached
+// in the state directory, keyed by the path, size and modification time of
+// the image, so a changed image gets a new thumbnail.
+
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import jpeg from 'jpeg-js';
+import pngjs from 'pngjs';
+import { logger } from '../utilities/logger.js';
+import { resolveResource } from './resources.js';
+import { sendJSON } from './response.js';
+import { thumbnailsDirectory } from './state.js';
+import { writeAtomically } from './upload.js';
+import type { Stats } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ParsedUrlQuery } from 'node:querystring';
+import type { ResourceConfig } from './resources.js';
+
+export interface ThumbnailConfig extends ResourceConfig {
+  // Thumbnails are not cached on the disk when the server is read-only.
+  readOnly?: boolean;
+}
+
+export const thumbnailPath = '/__thumbnail';
+
+// The extensions of the images thumbnails can be made of.
+const thumbnailExtensions = new Set(['.jpg', '.jpeg', '.png']);
+
+// The longest side of a thumbnail, in pixels.
+const thumbnailSize = 256;
+// The quality thumbnails are encoded with, from 1 to 100.
+const thumbnailQuality = 80;
+// The largest image, in bytes and in megapixels, that thumbnails are made
+// of, so a huge image cannot exhaust the memory of the server.
+const maxImageSize = 50 * 1024 * 1024;
+const maxMegapixels = 64;
+
+// An image decoded into red, green, blue and alpha bytes for every pixel.
+interface Bitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Checks whether a thumbnail can be made of the file with the given name.
+ */
+export const hasThumbnail = (name: string): boolean =>
+  thumbnailExtensions.has(path.extname(name).toLowerCase());
+
+const isJpeg = (data: Buffer): boolean =>
+  data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff;
+
+const isPng = (data: Buffer): boolean =>
+  data.length > 24 &&
+  data.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex'));
+
+/**
+ * Reads the orientation a camera stored in the EXIF data of a JPEG image,
+ * which says how the image has to be rotated or flipped to be shown upright.
+ *
+ * @returns The orientation, from 1 to 8, where 1 means it is upright.
+ */
+const readOrientation = (data: Buffer): number => {
+  try {
+    let offset = 2;
+    while (offset + 4 <= data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      // The image data starts here, and the metadata comes before it.
+      if (marker === 0xda) break;
+
+      if (
+        marker === 0xe1 &&
+        data.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0'
+      ) {
+        const tiff = offset + 10;
+        const littleEndian = data.toString('latin1', tiff, tiff + 2) === 'II';
+        const read16 = (at: number): number =>
+          littleEndian ? data.readUInt16LE(at) : data.readUInt16BE(at);
+        const read32 = (at: number): number =>
+          littleEndian ? data.readUInt32LE(at) : data.readUInt32BE(at);
+
+        const directory = tiff + read32(tiff + 4);
+        const count = read16(directory);
+        for (let index = 0; index < count; index++) {
+          const entry = directory + 2 + index * 12;
+          if (read16(entry) === 0x0112) {
+            const orientation = read16(entry + 8);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+
+        return 1;
+      }
+
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  } catch {
+    // Broken metadata is not worth failing over, the image is shown as is.
+  }
+
+  return 1;
+};
+
+/**
+ * Decodes a JPEG or PNG image, after checking its dimensions are within the
+ * limits.
+ *
+ * @returns The decoded image, or `null` if it is in another format.
+ */
+const decodeImage = (data: Buffer): Bitmap | null => {
+  if (isJpeg(data))
+    return jpeg.decode(data, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: maxMegapixels,
+    });
+
+  if (isPng(data)) {
+    // The dimensions are in the header that comes right after the signature.
+    const width = data.readUInt32BE(16);
+    const height = data.readUInt32BE(20);
+    if (width * height > maxMegapixels * 1_000_000)
+      throw new Error(`The image is larger than ${maxMegapixels} megapixels`);
+
+    return pngjs.PNG.sync.read(data);
+  }
+
+  return null;
+};
+
+/**
+ * Scales an image down to fit the size of thumbnails, by averaging the pixels
+ * that end up in each pixel of the thumbnail. Transparent parts are shown on
+ * white, as thumbnails are JPEG images.
+ */
+const scaleDown = (image: Bitmap): Bitmap => {
+  const scale = Math.min(
+    1,
+    thumbnailSize / Math.max(image.width, image.height),
+  );
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * image.height) / height);
+    const bottom = Math.max(
+      top + 1,
+      Math.floor(((y + 1) * image.height) / height),
+    );
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * image.width) / width);
+      const right = Math.max(
+        left + 1,
+        Math.floor(((x + 1) * image.width) / width),
+      );
+
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      for (let sourceY = top; sourceY < bottom; sourceY++) {
+        for (let sourceX = left; sourceX < right; sourceX++) {
+          const source = (sourceY * image.width + sourceX) * 4;
+          const alpha = (image.data[source + 3] ?? 255) / 255;
+          const background = 255 * (1 - alpha);
+          red += (image.data[source] ?? 0) * alpha + background;
+          green += (image.data[source + 1] ?? 0) * alpha + background;
+          blue += (image.data[source + 2] ?? 0) * alpha + background;
+        }
+      }
+
+      const count = (bottom - top) * (right - left);
+      const target = (y * width + x) * 4;
+      data[target] = Math.round(red / count);
+      data[target + 1] = Math.round(green / count);
+      data[target + 2] = Math.round(blue / count);
+      data[target + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+};
+
+/**
+ * Rotates and flips an image the way its EXIF orientation says, so it is
+ * shown upright.
+ */
+const orient = (image: Bitmap, orientation: number): Bitmap => {
+  if (orientation === 1) return image;
+
+  const { width, height } = image;
+  // Orientations 5 to 8 turn the image on its side.
+  const turned = orientation >= 5;
+  const targetWidth = turned ? height : width;
+  const targetHeight = turned ? width : height;
+  const data = new Uint8Array(image.data.length);
+
+  // Finds the pixel of the original image that ends up at the given place.
+  const locate = (x: number, y: number): [number, number] => {
+    switch (orientation) {
+      case 2:
+        return [width - 1 - x, y];
+      case 3:
+        return [width - 1 - x, height - 1 - y];
+      case 4:
+        return [x, height - 1 - y];
+      case 5:
+        return [y, x];
+      case 6:
+        return [y, height - 1 - x];
+      case 7:
+        return [width - 1 - y, height - 1 - x];
+      default:
+        return [width - 1 - y, x];
+    }
+  };
+
+  for (let y = 0; y < targetHeight; y++) {
+    for (let x = 0; x < targetWidth; x++) {
+      const [sourceX, sourceY] = locate(x, y);
+      const source = (sourceY * width + sourceX) * 4;
+      data.set(
+        image.data.subarray(source, source + 4),
+        (y * targetWidth + x) * 4,
+      );
+    }
+  }
+
+  return { width: targetWidth, height: targetHeight, data };
+};
+
+/**
+ * Makes a thumbnail of the given image.
+ *
+ * @returns The thumbnail as a JPEG image, or `null` if the image is in a
+ *          format thumbnails cannot be made of.
+ */
+const createThumbnail = (data: Buffer): Buffer | null => {
+  const image = decodeImage(data);
+  if (!image) return null;
+
+  const orientation = isJpeg(data) ? readOrientation(data) : 1;
+  const thumbnail = orient(scaleDown(image), orientation);
+  return jpeg.encode(
+    { ...thumbnail, data: Buffer.from(thumbnail.data.buffer) },
+    thumbnailQuality,
+  ).data;
+};
+
+// Decoding images keeps the server busy, so thumbnails are made one after the
+// other, and a thumbnail requested several times at once is only made once.
+let previousThumbnail: Promise<unknown> = Promise.resolve();
+const pendingThumbnails = new Map<string, Promise<Buffer | null>>();
+
+/**
+ * Gets the thumbnail of an image from the cache, or makes it and adds it to
+ * the cache.
+ */
+const getThumbnail = async (
+  current: string,
+  absolutePath: string,
+  key: string,
+  cache: boolean,
+): Promise<Buffer | null> => {
+  const cachedPath = path.join(current, thumbnailsDirectory, `${key}.jpg`);
+  const cached = cache ? await readFile(cachedPath).catch(() => null) : null;
+  if (cached) return cached;
+
+  const pending = pendingThumbnails.get(key);
+  if (pending) return pending;
+
+  const thumbnail = previousThumbnail.then(async () => {
+    const image = await readFile(absolutePath);
+    // Let other requests be handled between thumbnails.
+    await new Promise((resolve) => {
+      setImmediate(resolve);
+    });
+
+    const created = createThumbnail(image);
+    // The thumbnail is written atomically, so one that is still being written
+    // is never served.
+    if (created && cache)
+      await writeAtomically(cachedPath, created).catch((error: unknown) => {
+        logger.warn(`Failed to cache a thumbnail: ${String(error)}`);
+      });
+
+    return created;
+  });
+
+  // A thumbnail that fails is reported to its own request, and must not hold
+  // up the ones after it.
+  previousThumbnail = thumbnail.catch(() => undefined);
+  pendingThumbnails.set(key, thumbnail);
+  try {
+    return await thumbnail;
+  } finally {
+    pendingThumbnails.delete(key);
+  }
+};
+
+/**
+ * Creates the key thumbnails are cached with, which changes whenever the
+ * image does.
+ */
+const getKey = (relativePath: string, stats: Stats): string =>
+  createHash('sha1')
+    .update([relativePath, stats.size, stats.mtimeMs, thumbnailSize].join('\0'))
+    .digest('hex');
+
+/**
+ * Handles a request to the thumbnail endpoint. The `path` query parameter
+ * selects the image, relative to the served directory.
+ *
+ * @param request - The incoming request.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param query - The parsed query of the request.
+ * @param config - The configuration for the handler.
+ */
+export const handleThumbnail = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  query: ParsedUrlQuery,
+  config: ThumbnailConfig,
+): Promise<void> => {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    response.setHeader('Allow', 'GET, HEAD');
+    sendJSON(response, 405, { success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  const resource =
+    typeof query.path === 'string'
+      ? await resolveResource(current, query.path, config)
+      : null;
+  if (!resource?.stats?.isFile()) {
+    sendJSON(response, 404, { success: false, error: 'File not found' });
+    return;
+  }
+
+  if (!hasThumbnail(resource.absolutePath)) {
+    sendJSON(response, 415, {
+      success: false,
+      error: 'Thumbnails can only be made of JPEG and PNG images',
+    });
+    return;
+  }
+
+  if (resource.stats.size > maxImageSize) {
+    sendJSON(response, 422, {
+      success: false,
+      error: 'The image is too large to make a thumbnail of',
+    });
+    return;
+  }
+
+  const key = getKey(resource.relativePath, resource.stats);
+  const etag = `"${key}"`;
+  response.setHeader('ETag', etag);
+  // Browsers check back every time, so a changed image is never shown with
+  // an old thumbnail.
+  response.setHeader('Cache-Control', 'no-cache');
+  if (request.headers['if-none-match'] === etag) {
+    response.statusCode = 304;
+    response.end();
+    return;
+  }
+
+  let thumbnail: Buffer | null = null;
+  try {
+    thumbnail = await getThumbnail(
+      current,
+      resource.absolutePath,
+      key,
+      !config.readOnly,
+    );
+  } catch (error: unknown) {
+    logger.warn(
+      `Failed to make a thumbnail of ${resource.relativePath}: ${String(
+        error,
+      )}`,
+    );
+  }
+
+  if (!thumbnail) {
+    response.removeHeader('ETag');
+    sendJSON(response, 422, {
+      success: false,
+      error: 'The image could not be read',
+    });
+    return;
+  }
+
+  response.statusCode = 200;
+  response.setHeader('Content-Type', 'image/jpeg');
+  response.setHeader('Content-Length', thumbnail.length);
+  response.end(request.method === 'HEAD' ? undefined : thumbnail);
+};
@@ -0,0 +1,748 @@
+// source/handler/upload.ts
+// Handles files uploaded through the `/__upload` endpoint.
+
+import path from 'node:path';
+import { once } from 'node:events';
+import { randomBytes } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import {
+  access,
+  copyFile,
+  cp,
+  lstat,
+  mkdir,
+  realpath,
+  rename,
+  rm,
+  stat,
+  statfs,
+  unlink,
+  writeFile,
+} from 'node:fs/promises';
+import bytes from 'bytes';
+import isPathInside from 'path-is-inside';
+import { logger } from '../utilities/logger.js';
+import { createMultipartParser, getBoundary } from './multipart.js';
+import { sourceMatches } from './matchers.js';
+import { createDigestVerifier, getExpectedDigests } from './digest.js';
+import { isStatePath, stagingDirectory, versionsDirectory } from './state.js';
+import { sendJSON } from './response.js';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { PartSink } from './multipart.js';
+
+// What to do when an uploaded file has the same name as an existing one.
+export type ConflictPolicy = 'reject' | 'rename' | 'overwrite' | 'version';
+
+// What was done to store an uploaded file.
+export type UploadAction = 'created' | 'renamed' | 'overwritten' | 'versioned';
+
+export interface UploadConfig {
+  maxFileSize?: number | string;
+  maxRequestSize?: number | string;
+  allow?: string[];
+  deny?: string[];
+  minFreeSpace?: number | string;
+  onConflict?: ConflictPolicy;
+}
+
+interface UploadResult {
+  filename: string;
+  success: boolean;
+  action?: UploadAction;
+  error?: string;
+  statusCode?: number;
+}
+
+// An error that aborts the upload, along with the status code to respond with.
+interface UploadError extends Error {
+  statusCode: number;
+}
+
+const uploadError = (statusCode: number, message: string): UploadError =>
+  Object.assign(new Error(message), { statusCode });
+
+// How much of a file is received between checks of the free space on the
+// disk, as the size of a request is not always known before it is read.
+const freeSpaceCheckInterval = 8 * 1024 * 1024;
+
+/**
+ * Converts a size from the configuration into a number of bytes.
+ *
+ * @param size - The size, as a number of bytes or a string like `500 MB`.
+ * @returns The number of bytes, or `null` if there is no limit.
+ */
+export const toBytes = (size?: number | string): number | null => {
+  if (size === undefined) return null;
+
+  const parsed = typeof size === 'number' ? size : bytes.parse(size);
+  return parsed && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Checks whether a file may be uploaded, based on the `allow` and `deny` globs
+ * in the configuration. A glob matches either the whole path of the file or
+ * just its name, so `*.exe` applies to files in sub-folders too. A file that
+ * is denied is never accepted, even if it is also allowed.
+ *
+ * @param filename - The path of the file, relative to the upload directory.
+ * @param config - The restrictions that apply to uploads.
+ * @returns Whether the file is accepted.
+ */
+export const isAllowedFile = (
+  filename: string,
+  config: UploadConfig,
+): boolean => {
+  const matches = (source: string): boolean =>
+    Boolean(
+      sourceMatches(source, `/${filename}`) ??
+        sourceMatches(source, `/${path.posix.basename(filename)}`),
+    );
+
+  if (config.deny?.some(matches)) return false;
+  if (config.allow && config.allow.length > 0)
+    return config.allow.some(matches);
+
+  return true;
+};
+
+/**
+ * Checks whether storing the given number of bytes would still leave the
+ * configured amount of space free on the disk.
+ *
+ * @param current - The directory being served.
+ * @param size - The number of bytes about to be written.
+ * @param config - The restrictions that apply to uploads.
+ * @returns Whether there is enough space for the upload.
+ */
+export const hasFreeSpace = async (
+  current: string,
+  size: number,
+  config: UploadConfig,
+): Promise<boolean> => {
+  const minFreeSpace = toBytes(config.minFreeSpace);
+  if (minFreeSpace === null) return true;
+
+  const { bavail, bsize } = await statfs(current);
+  return bavail * bsize - size >= minFreeSpace;
+};
+
+export const exists = async (filePath: string): Promise<boolean> => {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks that a path does not lead out of the served directory through a
+ * symlink along the way, including one in the place of the path itself.
+ */
+export const isContained = async (
+  current: string,
+  absolutePath: string,
+): Promise<boolean> => {
+  let existing = absolutePath;
+  // The closest ancestor that exists has to be found one level at a time.
+  // eslint-disable-next-line no-await-in-loop
+  while (existing !== current && !(await exists(existing)))
+    existing = path.dirname(existing);
+
+  const [root, resolved] = await Promise.all([
+    realpath(current),
+    realpath(existing),
+  ]);
+  return resolved === root || isPathInside(resolved, root);
+};
+
+export const removeFile = async (filePath: string): Promise<void> => {
+  try {
+    await unlink(filePath);
+  } catch (err: unknown) {
+    const error = err as NodeJS.ErrnoException;
+    if (error.code !== 'ENOENT') logger.error(String(err));
+  }
+};
+
+/**
+ * Replaces the contents of a file without ever leaving it half written, by
+ * writing to a temporary file next to it and renaming that over it.
+ */
+export const writeAtomically = async (
+  file: string,
+  data: string | Buffer,
+): Promise<void> => {
+  await mkdir(path.dirname(file), { recursive: true });
+
+  const temporaryPath = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await writeFile(temporaryPath, data);
+    await rename(temporaryPath, file);
+  } catch (err: unknown) {
+    await removeFile(temporaryPath);
+    throw err;
+  }
+};
+
+/**
+ * Moves a file or directory, falling back to copying it when the source and
+ * destination are on different devices.
+ */
+export const moveFile = async (
+  source: string,
+  destination: string,
+): Promise<void> => {
+  try {
+    await rename(source, destination);
+  } catch (err: unknown) {
+    const error = err as NodeJS.ErrnoException;
+    if (error.code !== 'EXDEV') throw err;
+
+    await cp(source, destination, { recursive: true });
+    await rm(source, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Turns the name of an uploaded file into a relative path. Files uploaded as
+ * part of a folder carry the path of the file within that folder in their
+ * name, so the folder structure can be recreated.
+ *
+ * @param filename - The name of the file, as sent by the client.
+ * @returns The relative path, or `null` if the name is not acceptable.
+ */
+const toRelativePath = (filename: string): string | null => {
+  const segments = filename.split(/[\\/]/).filter(Boolean);
+
+  if (segments.length === 0) return null;
+  if (segments.some((segment) => segment === '.' || segment === '..'))
+    return null;
+
+  return path.join(...segments);
+};
+
+/**
+ * Works out where an uploaded file should be stored.
+ *
+ * @param current - The directory being served.
+ * @param directory - The absolute path to the directory to upload to.
+ * @param filename - The name of the file, as sent by the client.
+ * @returns The absolute path to store the file at along with its normalized
+ *          name, or `null` if the name is not acceptable.
+ */
+export const resolveDestination = async (
+  current: string,
+  directory: string,
+  filename: string,
+): Promise<{ destination: string; filename: string } | null> => {
+  const relativePath = toRelativePath(filename);
+  if (!relativePath) return null;
+
+  const destination = path.join(directory, relativePath);
+  if (
+    !isPathInside(destination, directory) ||
+    isStatePath(current, destination) ||
+    !(await isContained(current, destination))
+  )
+    return null;
+
+  return {
+    destination,
+    filename: relativePath.split(path.sep).join('/'),
+  };
+};
+
+/**
+ * Finds a name that is not taken yet by appending a counter to the name of
+ * the file, e.g. `notes (1).txt`.
+ */
+const findFreeName = async (destination: string): Promise<string> => {
+  const { dir, name, ext } = path.parse(destination);
+
+  for (let counter = 1; ; counter++) {
+    const candidate = path.join(dir, `${name} (${counter})${ext}`);
+    // The names have to be tried one after the other.
+    // eslint-disable-next-line no-await-in-loop
+    if (!(await exists(candidate))) return candidate;
+  }
+};
+
+/**
+ * Keeps a copy of the current contents of a file in the versions directory,
+ * under the name of the file with the time it was replaced.
+ */
+const keepVersion = async (
+  current: string,
+  filePath: string,
+): Promise<void> => {
+  const { dir, name, ext } = path.parse(path.relative(current, filePath));
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const versionPath = path.join(
+    current,
+    versionsDirectory,
+    dir,
+    `${name}.${timestamp}${ext}`,
+  );
+
+  await mkdir(path.dirname(versionPath), { recursive: true });
+  await copyFile(filePath, versionPath);
+};
+
+/**
+ * Moves a completed upload to its destination. If a file with the same name
+ * exists, the conflict is resolved according to the given policy.
+ *
+ * @param current - The directory being served.
+ * @param source - The path to the completed upload.
+ * @param destination - The path the file should be stored at.
+ * @param policy - What to do if the destination is taken.
+ * @returns Where the file was stored, and what was done to store it.
+ */
+export const storeUpload = async (
+  current: string,
+  source: string,
+  destination: string,
+  policy: ConflictPolicy = 'reject',
+): Promise<{ destination: string; action: UploadAction }> => {
+  await mkdir(path.dirname(destination), { recursive: true });
+
+  const existing = await lstat(destination).catch(() => null);
+  if (!existing) {
+    await moveFile(source, destination);
+    return { destination, action: 'created' };
+  }
+
+  if (policy === 'rename') {
+    const freeName = await findFreeName(destination);
+    await moveFile(source, freeName);
+    return { destination: freeName, action: 'renamed' };
+  }
+
+  if (policy === 'reject' || !existing.isFile()) {
+    await removeFile(source);
+    throw uploadError(
+      409,
+      `File "${path.basename(destination)}" already exists`,
+    );
+  }
+
+  if (policy === 'version') await keepVersion(current, destination);
+  await moveFile(source, destination);
+
+  return {
+    destination,
+    action: policy === 'version' ? 'versioned' : 'overwritten',
+  };
+};
+
+/**
+ * Creates a sink that streams the body of a part into a temporary file in the
+ * staging directory, and hands it over to be stored once it is complete. The
+ * file is refused once it grows beyond the maximum size, or leaves too little
+ * space on the disk.
+ */
+const createFileSink = async (
+  current: string,
+  config: UploadConfig,
+  store: (temporaryPath: string) => Promise<void>,
+): Promise<PartSink> => {
+  const maxFileSize = toBytes(config.maxFileSize);
+  const staging = path.join(current, stagingDirectory);
+  await mkdir(staging, { recursive: true });
+
+  const temporaryPath = path.join(
+    staging,
+    `${randomBytes(8).toString('hex')}.upload`,
+  );
+  const stream = createWriteStream(temporaryPath, { flags: 'wx' });
+  // The file is opened in the background, and closed once the stream is
+  // destroyed, which can happen after it was removed, leaving an empty file
+  // behind. It is only removed once it is closed.
+  const streamClosed = new Promise((resolve) => {
+    stream.once('close', resolve);
+  });
+  let received = 0;
+  let checkedAt = 0;
+  let closed = false;
+  let failure: Error | null = null;
+
+  // Remember any error writing to the disk, so the next chunk can report it.
+  stream.on('error', (error) => {
+    failure = error;
+  });
+
+  const abort = async (): Promise<void> => {
+    if (closed) return;
+    closed = true;
+
+    stream.destroy();
+    await streamClosed;
+    await removeFile(temporaryPath);
+  };
+
+  return {
+    write: async (chunk: Buffer) => {
+      if (failure) throw failure;
+
+      received += chunk.length;
+      if (maxFileSize !== null && received > maxFileSize) {
+        await abort();
+        throw uploadError(
+          413,
+          `File exceeds the maximum size of ${bytes(maxFileSize)}`,
+        );
+      }
+
+      if (received - checkedAt >= freeSpaceCheckInterval) {
+        checkedAt = received;
+        if (!(await hasFreeSpace(current, 0, config))) {
+          await abort();
+          throw uploadError(507, 'Not enough disk space to store the upload');
+        }
+      }
+
+      if (!stream.write(chunk)) await once(stream, 'drain');
+    },
+    end: async () => {
+      closed = true;
+      stream.end();
+      await once(stream, 'finish');
+
+      await store(temporaryPath);
+    },
+    abort,
+  };
+};
+
+/**
+ * Streams the body of a request into a temporary file in the staging
+ * directory, and hands it over to be stored once it is complete. If the
+ * request carries checksums of the body, the file is only stored when they
+ * match.
+ *
+ * @param request - The request with the contents of the file as its body.
+ * @param current - The directory being served.
+ * @param config - The restrictions that apply to uploads.
+ * @param store - Moves the temporary file to its destination.
+ * @returns Whatever `store` returns.
+ */
+export const receiveFile = async <T>(
+  request: IncomingMessage,
+  current: string,
+  config: UploadConfig,
+  store: (temporaryPath: string) => Promise<T>,
+): Promise<T> => {
+  const outcome: { stored?: T } = {};
+  const sink = await createFileSink(current, config, async (temporaryPath) => {
+    outcome.stored = await store(temporaryPath);
+  });
+
+  const verifier = createDigestVerifier(getExpectedDigests(request.headers));
+
+  try {
+    for await (const chunk of request) {
+      verifier.update(chunk as Buffer);
+      await sink.write(chunk as Buffer);
+    }
+
+    const mismatch = verifier.verify();
+    if (mismatch)
+      throw uploadError(400, `File does not match the ${mismatch} header`);
+
+    await sink.end();
+    return outcome.stored as T;
+  } catch (err: unknown) {
+    await sink.abort();
+
+    if ((err as NodeJS.ErrnoException).code === 'ENOSPC')
+      throw uploadError(507, 'Not enough disk space to store the file');
+    throw err;
+  }
+};
+
+/**
+ * Wraps the sink of a file so that a failure is recorded in the result for
+ * that file instead of failing the whole request. Whatever is left of a
+ * failed file is discarded.
+ */
+const recordResult = (sink: PartSink, result: UploadResult): PartSink => {
+  let failed = false;
+
+  const fail = async (err: unknown): Promise<void> => {
+    const error = (
+      (err as NodeJS.ErrnoException).code === 'ENOSPC'
+        ? uploadError(507, 'Not enough disk space to store the file')
+        : err
+    ) as Partial<UploadError>;
+    failed = true;
+
+    if (!error.statusCode) logger.error(String(err));
+    Object.assign(result, {
+      success: false,
+      statusCode: error.statusCode ?? 500,
+      error: error.statusCode ? error.message : 'Could not save the file',
+    });
+
+    await sink.abort();
+  };
+
+  return {
+    write: async (chunk: Buffer) => {
+      if (failed) return;
+
+      try {
+        await sink.write(chunk);
+      } catch (err: unknown) {
+        await fail(err);
+      }
+    },
+    end: async () => {
+      if (failed) return;
+
+      try {
+        await sink.end();
+        Object.assign(result, { success: true, error: undefined });
+      } catch (err: unknown) {
+        await fail(err);
+      }
+    },
+    abort: () => sink.abort(),
+  };
+};
+
+/**
+ * Waits for the request to be parsed completely, rejecting if the parser
+ * fails, the body grows beyond the maximum size or the client goes away
+ * midway.
+ */
+const parseRequest = (
+  request: IncomingMessage,
+  parser: ReturnType<typeof createMultipartParser>,
+  maxRequestSize: number | null,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    let received = 0;
+
+    parser.on('finish', resolve);
+    parser.on('error', reject);
+    request.on('close', () => {
+      if (!request.complete) parser.destroy(new Error('Upload was aborted'));
+    });
+
+    // The `Content-Length` header cannot be trusted, nor is it always present,
+    // so the body is counted as it comes in.
+    if (maxRequestSize !== null)
+      request.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > maxRequestSize)
+          parser.destroy(
+            uploadError(
+              413,
+              `Request exceeds the maximum size of ${bytes(maxRequestSize)}`,
+            ),
+          );
+      });
+
+    request.pipe(parser);
+  });
+
+/**
+ * Resolves the directory files should be uploaded to, making sure it is an
+ * existing directory within the served directory.
+ *
+ * @param current - The directory being served.
+ * @param directory - The path of the directory, relative to the served one.
+ * @returns The absolute path to the directory, or the reason it was refused.
+ */
+export const resolveTargetDirectory = async (
+  current: string,
+  directory: string,
+): Promise<
+  { absolutePath: string } | { statusCode: number; error: string }
+> => {
+  // Resolving the path drops any trailing separator, which would otherwise
+  // make the checks below look at the target of a symlink.
+  const absolutePath = path.resolve(current, `.${path.sep}${directory}`);
+
+  if (
+    (!isPathInside(absolutePath, current) && absolutePath !== current) ||
+    isStatePath(current, absolutePath) ||
+    !(await isContained(current, absolutePath))
+  )
+    return { statusCode: 400, error: 'Invalid upload directory' };
+
+  try {
+    const stats = await stat(absolutePath);
+    if (!stats.isDirectory())
+      return { statusCode: 400, error: 'Upload target is not a directory' };
+  } catch (err: unknown) {
+    const error = err as NodeJS.ErrnoException;
+    if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') throw err;
+
+    return { statusCode: 404, error: 'Upload directory does not exist' };
+  }
+
+  return { absolutePath };
+};
+
+/**
+ * Streams the files in a `multipart/form-data` request to the given directory,
+ * and responds with the result for each file as JSON.
+ *
+ * @param request - The upload request.
+ * @param response - The response to send the result with.
+ * @param current - The directory being served.
+ * @param directory - The directory to upload to, relative to the served one.
+ * @param config - The restrictions that apply to uploads.
+ */
+export const handleUpload = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  directory: string,
+  config: UploadConfig = {},
+): Promise<void> => {
+  const boundary = getBoundary(request.headers['content-type'] ?? '');
+  if (!boundary) {
+    sendJSON(response, 400, { success: false, error: 'Invalid content type' });
+    return;
+  }
+
+  const target = await resolveTargetDirectory(current, directory);
+  if (!('absolutePath' in target)) {
+    // The body will not be read, so make sure the connection is not reused.
+    response.setHeader('Connection', 'close');
+    sendJSON(response, target.statusCode, {
+      success: false,
+      error: target.error,
+    });
+    return;
+  }
+
+  const maxRequestSize = toBytes(config.maxRequestSize);
+  const contentLength = Number(request.headers['content-length'] ?? 0);
+  if (maxRequestSize !== null && contentLength > maxRequestSize) {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 413, {
+      success: false,
+      error: `Request exceeds the maximum size of ${bytes(maxRequestSize)}`,
+    });
+    return;
+  }
+  if (!(await hasFreeSpace(current, contentLength, config))) {
+    response.setHeader('Connection', 'close');
+    sendJSON(response, 507, {
+      success: false,
+      error: 'Not enough disk space to store the upload',
+    });
+    return;
+  }
+
+  const { onConflict = 'reject' } = config;
+  const results: UploadResult[] = [];
+
+  const parser = createMultipartParser(boundary, async (part) => {
+    if (part.filename === undefined) return null;
+
+    const result: UploadResult = {
+      filename: part.filename,
+      success: false,
+      error: 'File was not uploaded completely',
+    };
+    results.push(result);
+
+    const resolved = await resolveDestination(
+      current,
+      target.absolutePath,
+      part.filename,
+    );
+    if (!resolved) {
+      Object.assign(result, { statusCode: 400, error: 'Invalid file name' });
+      return null;
+    }
+
+    result.filename = resolved.filename;
+
+    if (!isAllowedFile(resolved.filename, config)) {
+      Object.assign(result, {
+        statusCode: 415,
+        error: `Files like "${result.filename}" are not allowed`,
+      });
+      return null;
+    }
+
+    // Don't bother receiving a file that would be rejected anyway.
+    if (onConflict === 'reject' && (await exists(resolved.destination))) {
+      Object.assign(result, {
+        statusCode: 409,
+        error: `File "${result.filename}" already exists`,
+      });
+      return null;
+    }
+
+    const sink = await createFileSink(
+      current,
+      config,
+      async (temporaryPath) => {
+        const stored = await storeUpload(
+          current,
+          temporaryPath,
+          resolved.destination,
+          onConflict,
+        );
+
+        result.action = stored.action;
+        result.filename = path
+          .relative(target.absolutePath, stored.destination)
+          .split(path.sep)
+          .join('/');
+      },
+    );
+    return recordResult(sink, result);
+  });
+
+  try {
+    await parseRequest(request, parser, maxRequestSize);
+  } catch (err: unknown) {
+    const { statusCode } = err as Partial<UploadError>;
+
+    // Stop parsing, but keep reading the rest of the body so the response
+    // can still be delivered to the client.
+    request.unpipe(parser);
+    request.resume();
+
+    if (!statusCode) logger.error(String(err));
+
+    response.setHeader('Connection', 'close');
+    sendJSON(response, statusCode ?? 400, {
+      success: false,
+      error: (err as Error).message,
+    });
+    return;
+  }
+
+  if (results.length === 0) {
+    sendJSON(response, 400, {
+      success: false,
+      error: 'No file found in request',
+    });
+    return;
+  }
+
+  const files = results.map(({ filename, success, action, error }) => ({
+    filename,
+    success,
+    action,
+    error,
+  }));
+  const failure = results.find((result) => !result.success);
+
+  if (failure)
+    sendJSON(response, failure.statusCode ?? 400, {
+      success: false,
+      error: failure.error,
+      files,
+    });
+  else sendJSON(response, 200, { success: true, files });
+};
@@ -0,0 +1,534 @@
+// source/handler/webdav.ts
+// A WebDAV layer (https://www.rfc-editor.org/rfc/rfc4918) over the served
+// directory, so it can be mounted as a network drive.
+
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import {
+  cp,
+  lstat,
+  mkdir,
+  readdir,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises';
+import mime from 'mime-types';
+import isPathInside from 'path-is-inside';
+import { logger } from '../utilities/logger.js';
+import { mapWithLimit } from '../utilities/promise.js';
+import { canBeListed, getExcluded } from './matchers.js';
+import { statConcurrency } from './listing.js';
+import { sendStatus } from './response.js';
+import {
+  isAllowedResource,
+  isDirectory,
+  resolveResource,
+} from './resources.js';
+import {
+  hasFreeSpace,
+  isAllowedFile,
+  moveFile,
+  receiveFile,
+  storeUpload,
+  toBytes,
+} from './upload.js';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Stats } from 'node:fs';
+import type { UploadConfig } from './upload.js';
+import type { Resource, ResourceConfig } from './resources.js';
+
+export interface WebDAVConfig extends ResourceConfig {
+  readOnly?: boolean;
+  uploads?: UploadConfig;
+}
+
+const readMethods = ['OPTIONS', 'PROPFIND'];
+const writeMethods = [
+  'PUT',
+  'DELETE',
+  'MKCOL',
+  'COPY',
+  'MOVE',
+  'LOCK',
+  'UNLOCK',
+];
+
+// The methods handled by the WebDAV layer. `GET` and `HEAD` are left to the
+// static file handler.
+export const webdavMethods = [...readMethods, ...writeMethods];
+
+// How long a lock is granted for, in seconds.
+const lockTimeout = 3600;
+
+const escapeXML = (value: string): string =>
+  value.replace(/[<>&"']/g, (character) => `&#${character.charCodeAt(0)};`);
+
+const sendXML = (
+  response: ServerResponse,
+  statusCode: number,
+  body: string,
+  headers: Record<string, string> = {},
+): void => {
+  response.writeHead(statusCode, {
+    'Content-Type': 'application/xml; charset=utf-8',
+    ...headers,
+  });
+  response.end(`<?xml version="1.0" encoding="utf-8"?>\n${body}`);
+};
+
+const getHref = (relativePath: string, isCollection: boolean): string => {
+  const segments = relativePath.split('/').filter(Boolean);
+  const href = `/${segments.map(encodeURIComponent).join('/')}`;
+
+  return isCollection && segments.length > 0 ? `${href}/` : href;
+};
+
+// Decodes the path from a request, returning `null` if it is malformed.
+const decodePath = (pathname: string): string | null => {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+};
+
+const hasBody = (request: IncomingMessage): boolean =>
+  Number(request.headers['content-length'] ?? 0) > 0 ||
+  request.headers['transfer-encoding'] !== undefined;
+
+/**
+ * Describes a resource in a `PROPFIND` response.
+ */
+const describeResource = (href: string, name: string, stats: Stats): string => {
+  const properties = [
+    `<D:displayname>${escapeXML(name)}</D:displayname>`,
+    `<D:creationdate>${stats.birthtime.toISOString()}</D:creationdate>`,
+    `<D:getlastmodified>${stats.mtime.toUTCString()}</D:getlastmodified>`,
+    '<D:supportedlock><D:lockentry><D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockentry></D:supportedlock>',
+  ];
+
+  if (stats.isDirectory()) {
+    properties.push('<D:resourcetype><D:collection/></D:resourcetype>');
+  } else {
+    const contentType = mime.lookup(name) || 'application/octet-stream';
+    const etag = `${stats.size.toString(16)}-${Math.floor(
+      stats.mtimeMs,
+    ).toString(16)}`;
+
+    properties.push(
+      '<D:resourcetype/>',
+      `<D:getcontentlength>${stats.size}</D:getcontentlength>`,
+      `<D:getcontenttype>${contentType}</D:getcontenttype>`,
+      `<D:getetag>"${etag}"</D:getetag>`,
+    );
+  }
+
+  return [
+    '<D:response>',
+    `<D:href>${escapeXML(href)}</D:href>`,
+    `<D:propstat><D:prop>${properties.join('')}</D:prop>`,
+    '<D:status>HTTP/1.1 200 OK</D:status></D:propstat>',
+    '</D:response>',
+  ].join('');
+};
+
+/**
+ * Lists the properties of a resource, and those of its children if it is a
+ * directory and the `Depth` header asks for them. Every property is always
+ * returned, whatever the body of the request asks for.
+ */
+const findProperties = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  resource: Resource,
+  config: WebDAVConfig,
+): Promise<void> => {
+  const { relativePath, absolutePath, stats } = resource;
+  if (!stats) {
+    sendStatus(response, 404);
+    return;
+  }
+
+  const depth = request.headers.depth ?? 'infinity';
+  if (depth !== '0' && depth !== '1') {
+    sendXML(
+      response,
+      403,
+      '<D:error xmlns:D="DAV:"><D:propfind-finite-depth/></D:error>',
+    );
+    return;
+  }
+
+  const name = path.basename(relativePath ? absolutePath : current);
+  const responses = [
+    describeResource(getHref(relativePath, stats.isDirectory()), name, stats),
+  ];
+
+  if (depth === '1' && stats.isDirectory()) {
+    const excluded = getExcluded(config.unlisted);
+    const files = (await readdir(absolutePath)).filter((file) =>
+      canBeListed(excluded, file),
+    );
+    const children = await mapWithLimit(
+      files,
+      statConcurrency,
+      async (file) => {
+        const filePath = path.join(absolutePath, file);
+        const linkStats = await lstat(filePath).catch(() => null);
+        if (linkStats?.isSymbolicLink() && !config.symlinks) return null;
+
+        const fileStats = linkStats?.isSymbolicLink()
+          ? await stat(filePath).catch(() => null)
+          : linkStats;
+        if (!fileStats) return null;
+
+        const href = getHref(
+          path.posix.join(relativePath, file),
+          fileStats.isDirectory(),
+        );
+        return describeResource(href, file, fileStats);
+      },
+    );
+
+    for (const child of children) if (child) responses.push(child);
+  }
+
+  sendXML(
+    response,
+    207,
+    `<D:multistatus xmlns:D="DAV:">${responses.join('')}</D:multistatus>`,
+  );
+};
+
+/**
+ * Stores the body of the request as a file, replacing the existing one. If
+ * the conflict policy for uploads is `version`, the old copy is kept. The
+ * `reject` and `rename` policies are not applied, as WebDAV clients save
+ * changes to a file by sending it again to the same path.
+ */
+const putFile = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  resource: Resource,
+  config: WebDAVConfig,
+): Promise<void> => {
+  const { relativePath, absolutePath, stats } = resource;
+  const uploads = config.uploads ?? {};
+
+  const refuse = (statusCode: number): void => {
+    // The body will not be read, so make sure the connection is not reused.
+    sendStatus(response, statusCode, { Connection: 'close' });
+  };
+
+  if (stats?.isDirectory() || !relativePath) {
+    refuse(405);
+    return;
+  }
+  if (!(await isDirectory(path.dirname(absolutePath)))) {
+    refuse(409);
+    return;
+  }
+  if (!isAllowedFile(relativePath, uploads)) {
+    refuse(415);
+    return;
+  }
+
+  const length = Number(request.headers['content-length'] ?? 0);
+  const maxFileSize = toBytes(uploads.maxFileSize);
+  if (maxFileSize !== null && length > maxFileSize) {
+    refuse(413);
+    return;
+  }
+  if (!(await hasFreeSpace(current, length, uploads))) {
+    refuse(507);
+    return;
+  }
+
+  await receiveFile(request, current, uploads, async (temporaryPath) => {
+    await storeUpload(
+      current,
+      temporaryPath,
+      absolutePath,
+      uploads.onConflict === 'version' ? 'version' : 'overwrite',
+    );
+  });
+
+  sendStatus(response, stats ? 204 : 201);
+};
+
+const makeCollection = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  resource: Resource,
+): Promise<void> => {
+  if (resource.stats) {
+    sendStatus(response, 405);
+    return;
+  }
+  if (hasBody(request)) {
+    sendStatus(response, 415);
+    return;
+  }
+  if (!(await isDirectory(path.dirname(resource.absolutePath)))) {
+    sendStatus(response, 409);
+    return;
+  }
+
+  await mkdir(resource.absolutePath);
+  sendStatus(response, 201);
+};
+
+const deleteResource = async (
+  response: ServerResponse,
+  resource: Resource,
+): Promise<void> => {
+  if (!resource.stats) {
+    sendStatus(response, 404);
+    return;
+  }
+  if (!resource.relativePath) {
+    sendStatus(response, 403);
+    return;
+  }
+
+  await rm(resource.absolutePath, { recursive: true, force: true });
+  sendStatus(response, 204);
+};
+
+/**
+ * Copies or moves a resource to the path in the `Destination` header.
+ */
+const transferResource = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  source: Resource,
+  config: WebDAVConfig,
+): Promise<void> => {
+  if (!source.stats) {
+    sendStatus(response, 404);
+    return;
+  }
+
+  let destinationPath: string | null = null;
+  try {
+    destinationPath = decodePath(
+      new URL(
+        request.headers.destination ?? '',
+        `http://${request.headers.host ?? 'localhost'}`,
+      ).pathname,
+    );
+  } catch {
+    // An invalid URL is treated like a malformed path.
+  }
+  if (destinationPath === null) {
+    sendStatus(response, 400);
+    return;
+  }
+
+  const destination = await resolveResource(
+    current,
+    destinationPath,
+    config,
+    'write',
+  );
+  if (
+    !request.headers.destination ||
+    !destination?.relativePath ||
+    !source.relativePath ||
+    destination.absolutePath === source.absolutePath
+  ) {
+    sendStatus(response, 403);
+    return;
+  }
+  if (
+    isPathInside(destination.absolutePath, source.absolutePath) ||
+    !(await isDirectory(path.dirname(destination.absolutePath)))
+  ) {
+    sendStatus(response, 409);
+    return;
+  }
+
+  // Copying a directory without its contents only creates a directory.
+  const shallow =
+    request.method === 'COPY' &&
+    source.stats.isDirectory() &&
+    request.headers.depth === '0';
+  if (
+    !shallow &&
+    !(await isAllowedResource(
+      source.absolutePath,
+      destination.relativePath,
+      config.uploads ?? {},
+    ))
+  ) {
+    sendStatus(response, 415);
+    return;
+  }
+
+  if (destination.stats) {
+    if (String(request.headers.overwrite).toUpperCase() === 'F') {
+      sendStatus(response, 412);
+      return;
+    }
+
+    await rm(destination.absolutePath, { recursive: true, force: true });
+  }
+
+  if (request.method === 'MOVE') {
+    await moveFile(source.absolutePath, destination.absolutePath);
+  } else if (shallow) {
+    await mkdir(destination.absolutePath);
+  } else {
+    await cp(source.absolutePath, destination.absolutePath, {
+      recursive: true,
+    });
+  }
+
+  sendStatus(response, destination.stats ? 204 : 201);
+};
+
+/**
+ * Grants a lock on a resource, creating an empty file if it does not exist.
+ * Locks are handed out so that clients which insist on locking can write to
+ * the share, but they are not enforced.
+ */
+const lockResource = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  resource: Resource,
+  config: WebDAVConfig,
+): Promise<void> => {
+  const { relativePath, absolutePath } = resource;
+  let { stats } = resource;
+  let statusCode = 200;
+
+  if (!stats) {
+    if (!(await isDirectory(path.dirname(absolutePath)))) {
+      sendStatus(response, 409);
+      return;
+    }
+    if (!isAllowedFile(relativePath, config.uploads ?? {})) {
+      sendStatus(response, 415);
+      return;
+    }
+
+    await writeFile(absolutePath, '', { flag: 'wx' });
+    stats = await stat(absolutePath);
+    statusCode = 201;
+  }
+
+  // A lock is refreshed by sending its token in the `If` header.
+  const token =
+    /<(?<token>opaquelocktoken:[^>]+)>/.exec(String(request.headers.if))?.groups
+      ?.token ?? `opaquelocktoken:${randomUUID()}`;
+  const depth = request.headers.depth === '0' ? '0' : 'infinity';
+  const href = getHref(relativePath, stats.isDirectory());
+
+  sendXML(
+    response,
+    statusCode,
+    [
+      '<D:prop xmlns:D="DAV:"><D:lockdiscovery><D:activelock>',
+      '<D:locktype><D:write/></D:locktype>',
+      '<D:lockscope><D:exclusive/></D:lockscope>',
+      `<D:depth>${depth}</D:depth>`,
+      `<D:timeout>Second-${lockTimeout}</D:timeout>`,
+      `<D:locktoken><D:href>${token}</D:href></D:locktoken>`,
+      `<D:lockroot><D:href>${escapeXML(href)}</D:href></D:lockroot>`,
+      '</D:activelock></D:lockdiscovery></D:prop>',
+    ].join(''),
+    { 'Lock-Token': `<${token}>` },
+  );
+};
+
+/**
+ * Handles a WebDAV request. Writing is refused when the server is read-only,
+ * and files stored with `PUT` are subject to the same restrictions as other
+ * uploads.
+ *
+ * @param request - The request to handle.
+ * @param response - The response to send.
+ * @param current - The directory being served.
+ * @param pathname - The path of the request.
+ * @param config - The configuration for the handler.
+ */
+export const handleWebDAV = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  current: string,
+  pathname: string,
+  config: WebDAVConfig,
+): Promise<void> => {
+  const method = request.method ?? 'OPTIONS';
+  // Only the body of a `PUT` request is used; the rest are simply drained.
+  if (method !== 'PUT') request.resume();
+
+  if (config.readOnly && writeMethods.includes(method)) {
+    sendStatus(response, 403, { Connection: 'close' });
+    return;
+  }
+
+  if (method === 'OPTIONS') {
+    const allowed = config.readOnly
+      ? ['OPTIONS', 'GET', 'HEAD', 'PROPFIND']
+      : ['OPTIONS', 'GET', 'HEAD', 'PROPFIND', ...writeMethods];
+
+    sendStatus(response, 200, {
+      DAV: config.readOnly ? '1' : '1, 2',
+      Allow: allowed.join(', '),
+      'MS-Author-Via': 'DAV',
+      'Content-Length': 0,
+    });
+    return;
+  }
+
+  const decoded = decodePath(pathname);
+  const resource =
+    decoded === null
+      ? null
+      : await resolveResource(
+          current,
+          decoded,
+          config,
+          writeMethods.includes(method) ? 'write' : 'read',
+        );
+  if (!resource) {
+    sendStatus(response, 404, { Connection: 'close' });
+    return;
+  }
+
+  try {
+    switch (method) {
+      case 'PROPFIND':
+        await findProperties(request, response, current, resource, config);
+        break;
+      case 'PUT':
+        await putFile(request, response, current, resource, config);
+        break;
+      case 'MKCOL':
+        await makeCollection(request, response, resource);
+        break;
+      case 'DELETE':
+        await deleteResource(response, resource);
+        break;
+      case 'COPY':
+      case 'MOVE':
+        await transferResource(request, response, current, resource, config);
+        break;
+      case 'LOCK':
+        await lockResource(request, response, resource, config);
+        break;
+      default:
+        sendStatus(response, 204);
+    }
+  } catch (err: unknown) {
+    const error = err as Error & { statusCode?: number };
+    if (!error.statusCode) logger.error(String(err));
+
+    if (!response.headersSent) sendStatus(response, error.statusCode ?? 500);
+  }
+};
@@ -52,6 +52,35 @@ export declare interface Header {
   }[];
 }
 
+// A size in bytes, or a human readable size like `500 MB`.
+export declare type ByteSize = number | string;
+
+// What to do when an uploaded file has the same name as an existing one.
+export declare type ConflictPolicy =
+  | 'reject'
+  | 'rename'
+  | 'overwrite'
+  | 'version';
+
+// The restrictions that apply to files uploaded to the server.
+export declare interface UploadOptions {
+  maxFileSize: ByteSize;
+  maxRequestSize: ByteSize;
+  allow: string[];
+  deny: string[];
+  minFreeSpace: ByteSize;
+  onConflict: ConflictPolicy;
+}
+
+// Where the shared boards are saved, and which of them can be changed.
+export declare interface BoardOptions {
+  path: Path | false;
+  readOnly: boolean | string[];
+  maxRevisions: number;
+  maxSize: ByteSize;
+  maxWritesPerMinute: number;
+}
+
 // The configuration for the CLI.
 export declare interface Configuration {
   public: Path;
@@ -65,6 +94,11 @@ export declare interface Configuration {
   renderSingle: boolean;
   symlinks: boolean;
   etag: boolean;
+  readOnly: boolean;
+  webdav: boolean;
+  readme: boolean;
+  uploads: Partial<UploadOptions>;
+  board: Partial<BoardOptions>;
 }
 
 // The options you can pass to the CLI.
@@ -80,6 +114,8 @@ export declare interface Options {
   '--no-compression': boolean;
   '--no-etag': boolean;
   '--symlinks': boolean;
+  '--read-only': boolean;
+  '--board-file': Path;
   '--cors': boolean;
   '--no-port-switching': boolean;
   '--ssl-cert': Path;
@@ -55,6 +55,11 @@ const helpText = chalkTemplate`
     --no-etag                           Send \`Last-Modified\` header instead of \`ETag\`
 
     -S, --symlinks                      Resolve symlinks instead of showing 404 errors
+
+    -R, --read-only                     Disable uploads and editing the shared board
+
+    --board-file {underline path}                   Save the shared board to this file, or keep it in memory
+                                        only when empty {grey Default: .serve-box/board.json}
     
     --ssl-cert                          Optional path to an SSL/TLS certificate to serve with HTTPS
                                         {grey Supported formats: PEM (default) and PKCS12 (PFX)}
@@ -157,6 +162,8 @@ const options = {
   '--no-compression': Boolean,
   '--no-etag': Boolean,
   '--symlinks': Boolean,
+  '--read-only': Boolean,
+  '--board-file': String,
   '--cors': Boolean,
   '--no-port-switching': Boolean,
   '--ssl-cert': String,
@@ -174,6 +181,7 @@ const options = {
   '-n': '--no-clipboard',
   '-u': '--no-compression',
   '-S': '--symlinks',
+  '-R': '--read-only',
   '-C': '--cors',
   '-L': '--no-request-logging',
   '-a': '--auth',
@@ -7,9 +7,8 @@ import {
 } from 'node:path';
 import { readFile } from 'node:fs/promises';
 import Ajv from 'ajv';
-// @ts-expect-error No type definitions.
-import schema from '@zeit/schemas/deployment/config-static.js';
 import { resolve } from './promise.js';
+import { schema } from './schema.js';
 import { logger } from './logger.js';
 import type { ErrorObject } from 'ajv';
 import type { Configuration, Options, NodeError } from '../types.js';
@@ -122,7 +121,7 @@ export const loadConfiguration = async (
   // If the configuration isn't empty, validate it against the AJV schema.
   if (Object.keys(config).length !== 0) {
     const ajv = new Ajv({ allowUnionTypes: true });
-    const validate = ajv.compile(schema as object);
+    const validate = ajv.compile(schema);
 
     if (!validate(config) && validate.errors) {
       const defaultMessage = 'The configuration you provided is invalid:';
@@ -139,6 +138,9 @@ export const loadConfiguration = async (
   // Configure defaults based on the options the user has passed.
   config.etag = !args['--no-etag'];
   config.symlinks = args['--symlinks'] || config.symlinks;
+  if (args['--read-only']) config.readOnly = true;
+  if (args['--board-file'] !== undefined)
+    config.board = { ...config.board, path: args['--board-file'] || false };
 
   return config;
 };
@@ -32,3 +32,34 @@ export const resolve = async <T = unknown, E = Error>(
  * Promisifies the passed function.
  */
 export { promisify } from 'node:util';
+
+/**
+ * Calls the passed function for every item, running at most `limit` of the
+ * calls at the same time, and returns the results in the order of the items.
+ *
+ * @param items - The items to call the function for.
+ * @param limit - How many calls can run at the same time.
+ * @param fn - The function to call for every item.
+ * @returns The results of the calls.
+ */
+export const mapWithLimit = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = [];
+  let next = 0;
+
+  const work = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      // eslint-disable-next-line no-await-in-loop
+      results[index] = await fn(items[index] as T);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, work);
+  await Promise.all(workers);
+
+  return results;
+};
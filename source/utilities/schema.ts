@@ -0,0 +1,67 @@
+// source/utilities/schema.ts
+// The JSON schema used to validate the configuration for the CLI.
+
+// @ts-expect-error No type definitions.
+import staticSchema from '@zeit/schemas/deployment/config-static.js';
+
+// The schema shipped by `@zeit/schemas`, which covers the options inherited
+// from `serve-handler`. It does not allow additional properties, so the
+// options specific to `serve-box` have to be merged into it.
+const base = staticSchema as {
+  properties: Record<string, object>;
+} & Record<string, unknown>;
+
+// A size in bytes, either as a number or as a human readable string like
+// `500 MB`.
+const byteSize = {
+  type: ['integer', 'string'],
+  minimum: 0,
+  pattern: '^\\d+(?:\\.\\d+)?\\s*(?:[kKmMgGtTpP]?[bB])?$',
+};
+
+// A list of globs, matched against the paths of uploaded files.
+const globs = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+};
+
+export const schema = {
+  ...base,
+  properties: {
+    ...base.properties,
+    readOnly: { type: 'boolean' },
+    webdav: { type: 'boolean' },
+    readme: { type: 'boolean' },
+    uploads: {
+      type: 'object',
+      properties: {
+        maxFileSize: byteSize,
+        maxRequestSize: byteSize,
+        allow: globs,
+        deny: globs,
+        minFreeSpace: byteSize,
+        onConflict: {
+          type: 'string',
+          enum: ['reject', 'rename', 'overwrite', 'version'],
+        },
+      },
+      additionalProperties: false,
+    },
+    board: {
+      type: 'object',
+      properties: {
+        path: { anyOf: [{ type: 'string' }, { const: false }] },
+        readOnly: {
+          anyOf: [
+            { type: 'boolean' },
+            { type: 'array', items: { type: 'string' } },
+          ],
+        },
+        maxRevisions: { type: 'integer', minimum: 0 },
+        maxSize: byteSize,
+        maxWritesPerMinute: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+  },
+};
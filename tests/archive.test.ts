@@ -0,0 +1,156 @@
+// tests/archive.test.ts
+// Tests for downloading folders as archives.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { gunzipSync } from 'node:zlib';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { startServer } from '../source/utilities/server.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, and the address of the server.
+let directory: string;
+let address: string;
+
+// Reads the names and contents of the entries in a tar archive.
+const readTar = (archive: Buffer): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset + 512 <= archive.length && archive[offset] !== 0) {
+    const header = archive.subarray(offset, offset + 512);
+    const name = header.toString('utf8', 0, 100).replace(/\0.*$/, '');
+    const size = Number.parseInt(header.toString('utf8', 124, 136), 8);
+    offset += 512;
+
+    entries[name] = archive.toString('utf8', offset, offset + size);
+    offset += Math.ceil(size / 512) * 512;
+  }
+
+  return entries;
+};
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-archive-'));
+  await mkdir(path.join(directory, 'docs', 'notes'), { recursive: true });
+  await mkdir(path.join(directory, 'docs', '.git'));
+  await writeFile(path.join(directory, 'docs', 'notes', 'todo.txt'), 'milk');
+  await writeFile(path.join(directory, 'docs', 'secret.txt'), 'hidden');
+  await writeFile(path.join(directory, 'docs', '.git', 'HEAD'), 'ref');
+
+  const server = await startServer(
+    { port: 3016 },
+    { public: directory, unlisted: ['secret.txt'] },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('handler/archive', () => {
+  // Make sure folders are sent as tar archives, without the hidden files.
+  test('download a folder as a tar archive', async () => {
+    const response = await fetch(`${address}/docs/?archive=tar.gz`, {
+      responseType: 'buffer',
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-disposition']).toBe(
+      'attachment; filename="docs.tar.gz"',
+    );
+
+    expect(readTar(gunzipSync(response.body))).toEqual({
+      'docs/': '',
+      'docs/notes/': '',
+      'docs/notes/todo.txt': 'milk',
+    });
+  });
+
+  // Make sure folders are sent as ZIP archives, without the hidden files.
+  test('download a folder as a zip archive', async () => {
+    const response = await fetch(`${address}/docs/?archive=zip`, {
+      responseType: 'buffer',
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('application/zip');
+
+    const body = response.body.toString('latin1');
+    expect(body.startsWith('PK\u0003\u0004')).toBe(true);
+    expect(body).toContain('docs/notes/todo.txt');
+    expect(body).toContain('milk');
+    expect(body).not.toContain('secret.txt');
+    expect(body).not.toContain('.git');
+  });
+
+  // Make sure chosen files are sent as one archive, named below the folder
+  // that contains them.
+  test('download chosen files', async () => {
+    const response = await fetch.post(`${address}/__archive`, {
+      json: {
+        paths: ['/docs/notes/todo.txt', '/docs/notes/'],
+        format: 'tar.gz',
+      },
+      responseType: 'buffer',
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-disposition']).toBe(
+      'attachment; filename="notes.tar.gz"',
+    );
+    expect(readTar(gunzipSync(response.body))).toEqual({
+      'notes/': '',
+      'notes/todo.txt': 'milk',
+    });
+
+    const form = await fetch.post(`${address}/__archive`, {
+      form: { path: '/docs/notes/todo.txt' },
+    });
+    expect(form.statusCode).toBe(200);
+    expect(form.headers['content-disposition']).toBe(
+      'attachment; filename="todo.zip"',
+    );
+
+    const hidden = await fetch.post(`${address}/__archive`, {
+      json: { paths: ['/docs/notes/todo.txt', '/docs/secret.txt'] },
+    });
+    expect(hidden.statusCode).toBe(404);
+    expect(JSON.parse(hidden.body)).toMatchObject({ path: '/docs/secret.txt' });
+  });
+
+  // Make sure unknown formats show the listing instead.
+  test('ignore unknown formats', async () => {
+    const response = await fetch(`${address}/docs/?archive=rar`);
+    expect(response.headers['content-type']).toContain('text/html');
+  });
+
+  // Make sure folders whose listing may not be shown are left out of
+  // archives, and cannot be chosen.
+  test('leave out folders that cannot be listed', async () => {
+    const server = await startServer(
+      { port: 3025 },
+      { public: directory, directoryListing: ['/docs'] },
+      { '--no-request-logging': true },
+    );
+    const limited = server.local!;
+
+    const folder = await fetch(`${limited}/docs/?archive=tar.gz`, {
+      responseType: 'buffer',
+    });
+    expect(folder.statusCode).toBe(200);
+    expect(readTar(gunzipSync(folder.body))).toEqual({
+      'docs/': '',
+      'docs/secret.txt': 'hidden',
+    });
+
+    const chosen = await fetch.post(`${limited}/__archive`, {
+      json: { paths: ['/docs/notes/'] },
+    });
+    expect(chosen.statusCode).toBe(404);
+  });
+});
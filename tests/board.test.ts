@@ -0,0 +1,224 @@
+// tests/board.test.ts
+// Tests for the shared board.
+
+import http from 'node:http';
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { startServer } from '../source/utilities/server.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, and the address of the server.
+let directory: string;
+let address: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-board-'));
+
+  const server = await startServer(
+    { port: 3013 },
+    { public: directory },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('handler/board', () => {
+  // Make sure the board is saved to the default file in the state directory.
+  test('save board to disk', async () => {
+    const saved = await fetch.post(`${address}/__board`, {
+      json: { content: 'hello' },
+    });
+    expect(saved.statusCode).toBe(200);
+
+    const stored = await readFile(
+      path.join(directory, '.serve-box', 'board.json'),
+      'utf8',
+    );
+    expect(JSON.parse(stored)).toMatchObject({ content: 'hello', version: 1 });
+
+    const loaded = await fetch(`${address}/__board`).json();
+    expect(loaded).toEqual({ content: 'hello', version: 1, readOnly: false });
+  });
+
+  // Make sure a change based on an old version is refused, and the current
+  // board is returned so the client can merge.
+  test('refuse stale changes', async () => {
+    const saved = await fetch.post(`${address}/__board`, {
+      headers: { 'if-match': '"1"' },
+      json: { content: 'first' },
+    });
+    expect(saved.statusCode).toBe(200);
+    expect(saved.headers.etag).toBe('"2"');
+
+    const stale = await fetch.post(`${address}/__board`, {
+      headers: { 'if-match': '"1"' },
+      json: { content: 'second' },
+    });
+    expect(stale.statusCode).toBe(409);
+    expect(JSON.parse(stale.body)).toMatchObject({
+      success: false,
+      content: 'first',
+      version: 2,
+    });
+  });
+
+  // Make sure changes are pushed to the clients watching the board.
+  test('stream changes to watchers', async () => {
+    const events: string[] = [];
+    const request = http.get(`${address}/__board`, {
+      headers: { accept: 'text/event-stream' },
+    });
+    const response = await new Promise<http.IncomingMessage>((resolve) =>
+      request.on('response', resolve),
+    );
+    expect(response.headers['content-type']).toContain('text/event-stream');
+
+    const received = new Promise<void>((resolve) => {
+      response.on('data', (chunk: Buffer) => {
+        events.push(chunk.toString());
+        if (events.join('').includes('"version":3')) resolve();
+      });
+    });
+
+    await fetch.post(`${address}/__board`, { json: { content: 'third' } });
+    await received;
+    request.destroy();
+
+    expect(events.join('')).toContain(
+      'event: board\ndata: {"content":"third","version":3}\n\n',
+    );
+  });
+
+  // Make sure named boards are created when written to, saved next to the
+  // default one and listed.
+  test('create named boards', async () => {
+    const saved = await fetch.post(`${address}/__board/team-1`, {
+      json: { content: 'standup' },
+    });
+    expect(saved.statusCode).toBe(200);
+
+    const stored = await readFile(
+      path.join(directory, '.serve-box', 'board.team-1.json'),
+      'utf8',
+    );
+    expect(JSON.parse(stored)).toMatchObject({
+      content: 'standup',
+      version: 1,
+    });
+
+    const invalid = await fetch(`${address}/__board/bad.name`);
+    expect(invalid.statusCode).toBe(404);
+
+    const { boards } = await fetch(`${address}/__boards`).json<{
+      boards: Array<{ name: string }>;
+    }>();
+    expect(boards.map(({ name }) => name)).toEqual(['default', 'team-1']);
+  });
+
+  // Make sure a board that was only looked at is loaded again when it is
+  // written to, and simultaneous first changes still conflict.
+  test('create boards that were looked at', async () => {
+    const empty = await fetch(`${address}/__board/fresh`).json();
+    expect(empty).toMatchObject({ content: '', version: 0 });
+
+    const saves = await Promise.all(
+      ['first', 'second'].map(async (content) =>
+        fetch.post(`${address}/__board/fresh`, {
+          headers: { 'if-match': '"0"' },
+          json: { content },
+        }),
+      ),
+    );
+    expect(saves.map(({ statusCode }) => statusCode).sort()).toEqual([
+      200, 409,
+    ]);
+
+    const loaded = await fetch(`${address}/__board/fresh`).json();
+    expect(loaded).toMatchObject({ version: 1 });
+  });
+
+  // Make sure every change is kept as a revision that can be restored.
+  test('restore revisions', async () => {
+    await fetch.post(`${address}/__board/notes`, { json: { content: 'one' } });
+    await fetch.post(`${address}/__board/notes`, { json: { content: '' } });
+
+    const { revisions } = await fetch(
+      `${address}/__board/notes/revisions`,
+    ).json<{ revisions: Array<{ version: number; size: number }> }>();
+    expect(revisions).toMatchObject([
+      { version: 2, size: 0 },
+      { version: 1, size: 3 },
+    ]);
+
+    const revision = await fetch(`${address}/__board/notes/revisions/1`).json();
+    expect(revision).toMatchObject({ version: 1, content: 'one' });
+
+    const restored = await fetch.post(
+      `${address}/__board/notes/revisions/1/restore`,
+    );
+    expect(restored.statusCode).toBe(200);
+
+    const board = await fetch(`${address}/__board/notes`).json();
+    expect(board).toMatchObject({ content: 'one', version: 3 });
+  });
+
+  // Make sure anything but a string is refused.
+  test('refuse invalid content', async () => {
+    const response = await fetch.post(`${address}/__board`, {
+      json: { content: 42 },
+    });
+    expect(response.statusCode).toBe(400);
+  });
+});
+
+describe('handler/board limits', () => {
+  // Make sure large changes are refused, and clients that change the board
+  // too often are told to wait.
+  test('limit size and rate of changes', async () => {
+    const server = await startServer(
+      { port: 3014 },
+      {
+        public: directory,
+        board: { path: false, maxSize: 64, maxWritesPerMinute: 3 },
+      },
+      { '--no-request-logging': true },
+    );
+    const limited = server.local!;
+    // Changes are counted by the address of the client, so use one that has
+    // not made any in the other tests.
+    const client = fetch.extend({ localAddress: '127.0.0.2' });
+
+    const large = await client.post(`${limited}/__board`, {
+      json: { content: 'x'.repeat(100) },
+    });
+    expect(large.statusCode).toBe(413);
+
+    // Bodies without a length are cut off as soon as they grow too large.
+    const chunked = await client.post(`${limited}/__board`, {
+      body: Readable.from(Array.from({ length: 64 }, () => 'x'.repeat(1024))),
+    });
+    expect(chunked.statusCode).toBe(413);
+
+    const saved = await client.post(`${limited}/__board`, {
+      json: { content: 'small' },
+    });
+    expect(saved.statusCode).toBe(200);
+
+    const limitedWrite = await client.post(`${limited}/__board`, {
+      json: { content: 'again' },
+    });
+    expect(limitedWrite.statusCode).toBe(429);
+    expect(Number(limitedWrite.headers['retry-after'])).toBeGreaterThan(0);
+  });
+});
@@ -36,6 +36,13 @@ describe('utilities/config', () => {
     expect(configuration).toMatchSnapshot();
   });
 
+  // Make sure the server is only read-only when asked to be.
+  test('make the server read-only with the option', async () => {
+    const configuration = await loadConfig('valid', { '--read-only': true });
+    expect(configuration.readOnly).toBe(true);
+    expect(await loadConfig('valid')).not.toHaveProperty('readOnly');
+  });
+
   // When the configuration in the file is invalid, the function will throw an
   // error.
   test('throw error if config is invalid', async () => {
@@ -0,0 +1,54 @@
+// tests/digest.test.ts
+// Tests for verifying uploads against the checksums sent by the client.
+
+import { createHash } from 'node:crypto';
+import { describe, test, expect } from 'vitest';
+
+import {
+  createDigestVerifier,
+  getExpectedDigests,
+} from '../source/handler/digest.js';
+
+// The body used in these tests, and its checksums.
+const body = Buffer.from('hello world');
+const md5 = createHash('md5').update(body).digest('base64');
+const sha256 = createHash('sha256').update(body).digest('base64');
+
+// Feeds the body to a verifier in two chunks and returns the result.
+const verify = (headers: Record<string, string>): string | null => {
+  const verifier = createDigestVerifier(getExpectedDigests(headers));
+  verifier.update(body.subarray(0, 4));
+  verifier.update(body.subarray(4));
+
+  return verifier.verify();
+};
+
+describe('handler/digest', () => {
+  // Make sure checksums are read from all the supported headers, and unknown
+  // algorithms are skipped.
+  test('read checksums from headers', () => {
+    expect(
+      getExpectedDigests({
+        'content-md5': md5,
+        digest: `SHA-256=${sha256}, unixsum=30637`,
+        'content-digest': `sha-256=:${sha256}:`,
+      }),
+    ).toEqual([
+      { header: 'Content-MD5', algorithm: 'md5', value: md5 },
+      { header: 'Digest', algorithm: 'sha256', value: sha256 },
+      { header: 'Content-Digest', algorithm: 'sha256', value: sha256 },
+    ]);
+  });
+
+  // Make sure matching checksums pass, and the header of a mismatching one
+  // is reported.
+  test('verify body against checksums', () => {
+    expect(verify({})).toBeNull();
+    expect(verify({ 'content-md5': md5, digest: `sha-256=${sha256}` })).toBe(
+      null,
+    );
+    expect(verify({ 'content-md5': md5, digest: `sha-256=${md5}` })).toBe(
+      'Digest',
+    );
+  });
+});
@@ -0,0 +1,180 @@
+// tests/files.test.ts
+// Tests for the file management endpoints.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
+import {
+  access,
+  mkdtemp,
+  mkdir,
+  readdir,
+  rm,
+  symlink,
+  writeFile,
+} from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { startServer } from '../source/utilities/server.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, a directory outside of it that a
+// symlink leads to, and the addresses of the servers, the second of which
+// follows symlinks.
+let directory: string;
+let outside: string;
+let address: string;
+let symlinksAddress: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-files-'));
+  await mkdir(path.join(directory, 'docs'));
+  await writeFile(path.join(directory, 'docs', 'notes.txt'), 'hello');
+  await writeFile(path.join(directory, 'secret.txt'), 'hidden');
+  await mkdir(path.join(directory, 'tools', 'bin'), { recursive: true });
+  await writeFile(path.join(directory, 'tools', 'bin', 'setup.ex_'), 'setup');
+  await mkdir(path.join(directory, '.serve-box'));
+  await writeFile(path.join(directory, '.serve-box', 'board.json'), '{}');
+  outside = await mkdtemp(path.join(tmpdir(), 'serve-box-outside-'));
+  await writeFile(path.join(outside, 'keep.txt'), 'keep');
+  await symlink(outside, path.join(directory, 'linked'));
+
+  const server = await startServer(
+    { port: 3012 },
+    {
+      public: directory,
+      unlisted: ['secret.txt'],
+      uploads: { deny: ['*.exe'] },
+    },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+
+  const symlinks = await startServer(
+    { port: 3024 },
+    { public: directory, symlinks: true },
+    { '--no-request-logging': true },
+  );
+  symlinksAddress = symlinks.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+  await rm(outside, { recursive: true, force: true });
+});
+
+describe('handler/files', () => {
+  // Make sure folders can be created, and files moved and deleted.
+  test('manage files', async () => {
+    const created = await fetch.post(`${address}/__mkdir`, {
+      json: { path: '/archive' },
+    });
+    expect(created.statusCode).toBe(201);
+
+    const moved = await fetch.post(`${address}/__move`, {
+      json: { from: '/docs/notes.txt', to: '/archive/notes.txt' },
+    });
+    expect(moved.statusCode).toBe(200);
+
+    const deleted = await fetch.post(`${address}/__delete`, {
+      json: { path: '/docs' },
+    });
+    expect(deleted.statusCode).toBe(200);
+
+    await expect(
+      access(path.join(directory, 'archive', 'notes.txt')),
+    ).resolves.toBeUndefined();
+    await expect(access(path.join(directory, 'docs'))).rejects.toThrow();
+  });
+
+  // Make sure files cannot be renamed to names that could not be uploaded,
+  // including the files in a folder that is moved.
+  test('apply the upload rules to moved files', async () => {
+    const file = await fetch.post(`${address}/__move`, {
+      json: { from: '/tools/bin/setup.ex_', to: '/tools/bin/setup.exe' },
+    });
+    expect(file.statusCode).toBe(415);
+
+    await writeFile(path.join(directory, 'tools', 'bin', 'run.exe'), 'run');
+    const folder = await fetch.post(`${address}/__move`, {
+      json: { from: '/tools', to: '/programs' },
+    });
+    expect(folder.statusCode).toBe(415);
+    await expect(
+      access(path.join(directory, 'tools', 'bin', 'run.exe')),
+    ).resolves.toBeUndefined();
+  });
+
+  // Make sure paths outside the served directory or hidden from listings
+  // cannot be touched.
+  test('refuse hidden paths', async () => {
+    const outside = await fetch.post(`${address}/__delete`, {
+      json: { path: '/../secret.txt' },
+    });
+    expect(outside.statusCode).toBe(404);
+
+    const unlisted = await fetch.post(`${address}/__delete`, {
+      json: { path: '/secret.txt' },
+    });
+    expect(unlisted.statusCode).toBe(404);
+    expect(JSON.parse(unlisted.body)).toEqual({
+      success: false,
+      error: 'File not found',
+    });
+  });
+
+  // Make sure files outside the served directory cannot be changed through
+  // a symlink, even when symlinks are followed.
+  test('refuse changes through symlinks', async () => {
+    const deleted = await fetch.post(`${symlinksAddress}/__delete`, {
+      json: { path: '/linked/keep.txt' },
+    });
+    expect(deleted.statusCode).toBe(404);
+
+    const created = await fetch.post(`${symlinksAddress}/__mkdir`, {
+      json: { path: '/linked/new' },
+    });
+    expect(created.statusCode).toBe(404);
+
+    const moved = await fetch.post(`${symlinksAddress}/__move`, {
+      json: { from: '/linked/keep.txt', to: '/keep.txt' },
+    });
+    expect(moved.statusCode).toBe(404);
+
+    expect(await readdir(outside)).toEqual(['keep.txt']);
+  });
+
+  // Make sure only JSON bodies are accepted, and a body that is too large is
+  // refused without resetting the connection.
+  test('refuse invalid bodies', async () => {
+    const text = await fetch.post(`${address}/__delete`, {
+      headers: { 'content-type': 'text/plain' },
+      body: JSON.stringify({ path: '/secret.txt' }),
+    });
+    expect(text.statusCode).toBe(415);
+
+    const large = await fetch.post(`${address}/__delete`, {
+      headers: { 'content-type': 'application/json' },
+      body: Readable.from(
+        Array.from({ length: 64 }, () => Buffer.alloc(64 * 1024, ' ')),
+      ),
+    });
+    expect(large.statusCode).toBe(400);
+  });
+
+  // Make sure the state directory cannot be read or listed.
+  test('hide the state directory', async () => {
+    const file = await fetch(`${address}/.serve-box/board.json`);
+    expect(file.statusCode).toBe(404);
+    expect(file.body).not.toContain('{}');
+
+    const listing = await fetch(`${address}/.serve-box/`);
+    expect(listing.statusCode).toBe(404);
+
+    const encoded = await fetch(`${address}/%2Eserve-box/board.json`);
+    expect(encoded.statusCode).toBe(404);
+  });
+});
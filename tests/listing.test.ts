@@ -0,0 +1,166 @@
+// tests/listing.test.ts
+// Tests for sorting and filtering directory listings.
+
+import { describe, test, expect } from 'vitest';
+
+import {
+  describeEntry,
+  getListingOptions,
+  getPageOptions,
+  matchesFilter,
+  paginate,
+  sortEntries,
+  wantsVersionedListing,
+} from '../source/handler/listing.js';
+import type { Stats } from 'node:fs';
+import type { ListedEntry } from '../source/handler/listing.js';
+
+// Creates an entry of a listing with the given size and modification time.
+const entry = (
+  base: string,
+  size: number,
+  mtimeMs: number,
+  type = 'file',
+): ListedEntry => ({
+  details: { type, base },
+  stats: { size, mtimeMs } as Stats,
+});
+
+const entries = [
+  entry('b.mp4', 300, 2),
+  entry('photos/', 0, 1, 'folder'),
+  entry('a.mp4', 100, 3),
+  entry('c.txt', 200, 1),
+];
+
+const sortedNames = (sort: string, order: string): string[] =>
+  sortEntries([...entries], getListingOptions({ sort, order })).map(
+    ({ details }) => details.base,
+  );
+
+describe('handler/listing', () => {
+  // Make sure values that are not understood fall back to the defaults.
+  test('read listing options', () => {
+    expect(getListingOptions({})).toEqual({
+      sort: 'name',
+      order: 'asc',
+      filter: '',
+    });
+    expect(
+      getListingOptions({ sort: 'mtime', order: 'desc', filter: ' *.mp4 ' }),
+    ).toEqual({ sort: 'mtime', order: 'desc', filter: '*.mp4' });
+    expect(
+      getListingOptions({ sort: 'color', order: ['asc', 'desc'] }),
+    ).toEqual({ sort: 'name', order: 'asc', filter: '' });
+  });
+
+  // Make sure entries are sorted with folders first.
+  test('sort entries', () => {
+    expect(sortedNames('name', 'asc')).toEqual([
+      'photos/',
+      'a.mp4',
+      'b.mp4',
+      'c.txt',
+    ]);
+    expect(sortedNames('size', 'desc')).toEqual([
+      'photos/',
+      'b.mp4',
+      'c.txt',
+      'a.mp4',
+    ]);
+    expect(sortedNames('mtime', 'asc')).toEqual([
+      'photos/',
+      'c.txt',
+      'b.mp4',
+      'a.mp4',
+    ]);
+  });
+
+  // Make sure filters match globs and text, ignoring case.
+  test('filter entries', () => {
+    expect(matchesFilter('Clip.MP4', '*.mp4')).toBe(true);
+    expect(matchesFilter('clip.mov', '*.mp4')).toBe(false);
+    expect(matchesFilter('holiday-2026.jpg', 'Holiday')).toBe(true);
+    expect(matchesFilter('anything', '')).toBe(true);
+  });
+
+  // Make sure pages continue after the last entry of the previous one, even
+  // when entries are added in between.
+  test('paginate entries', () => {
+    const options = getListingOptions({ sort: 'size', order: 'desc' });
+    const sorted = sortEntries([...entries], options);
+
+    const first = paginate(sorted, options, getPageOptions({ limit: '2' }));
+    expect(first.entries.map(({ details }) => details.base)).toEqual([
+      'photos/',
+      'b.mp4',
+    ]);
+    expect(first.total).toBe(4);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    const added = sortEntries([...entries, entry('d.mp4', 400, 4)], options);
+    const second = paginate(
+      added,
+      options,
+      getPageOptions({ limit: '2', cursor: first.nextCursor ?? '' }),
+    );
+    expect(second.entries.map(({ details }) => details.base)).toEqual([
+      'c.txt',
+      'a.mp4',
+    ]);
+    expect(second.nextCursor).toBeNull();
+
+    expect(
+      paginate(sorted, options, getPageOptions({ cursor: 'nonsense' })).entries,
+    ).toHaveLength(4);
+    expect(getPageOptions({ limit: '-1' })).toEqual({
+      limit: null,
+      cursor: null,
+    });
+  });
+
+  // Make sure only clients that ask for the versioned listing get it.
+  test('read listing version', () => {
+    expect(wantsVersionedListing({ version: '1' })).toBe(true);
+    expect(wantsVersionedListing({ version: '2' })).toBe(false);
+    expect(wantsVersionedListing({})).toBe(false);
+  });
+
+  // Make sure entries sent as JSON have exact sizes, times and types.
+  test('describe entries', () => {
+    const stats = (isDirectory: boolean, isSymbolicLink = false): Stats =>
+      ({
+        size: 2048,
+        mtime: new Date('2026-01-02T03:04:05.000Z'),
+        isDirectory: () => isDirectory,
+        isSymbolicLink: () => isSymbolicLink,
+      } as Stats);
+
+    expect(
+      describeEntry({
+        name: 'clip.mp4',
+        path: '/videos/clip.mp4',
+        stats: stats(false, true),
+      }),
+    ).toEqual({
+      name: 'clip.mp4',
+      path: '/videos/clip.mp4',
+      type: 'file',
+      size: 2048,
+      mtime: '2026-01-02T03:04:05.000Z',
+      mimeType: 'video/mp4',
+      symlink: true,
+    });
+    expect(
+      describeEntry(
+        { name: 'videos', path: '/videos/', stats: stats(true) },
+        3,
+      ),
+    ).toMatchObject({
+      type: 'folder',
+      size: null,
+      mimeType: null,
+      children: 3,
+    });
+  });
+});
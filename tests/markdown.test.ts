@@ -0,0 +1,63 @@
+// tests/markdown.test.ts
+// Tests for rendering the shared board as Markdown.
+
+import { describe, test, expect } from 'vitest';
+
+import { renderMarkdown } from '../source/handler/markdown.js';
+
+describe('handler/markdown', () => {
+  // Make sure the supported blocks are rendered.
+  test('render blocks', () => {
+    expect(
+      renderMarkdown(
+        [
+          '# Notes',
+          'first line',
+          'second **line**',
+          '',
+          '- [ ] todo',
+          '- [x] done',
+          '1. one',
+          '```js',
+          'const a = 1 < 2;',
+          '```',
+          '> quoted',
+        ].join('\n'),
+      ),
+    ).toBe(
+      [
+        '<h1>Notes</h1>',
+        '<p>first line<br>second <strong>line</strong></p>',
+        '<ul><li class="task"><input type="checkbox" disabled> todo</li><li class="task"><input type="checkbox" disabled checked> done</li></ul>',
+        '<ol><li>one</li></ol>',
+        '<pre><code class="language-js">const a = 1 &lt; 2;</code></pre>',
+        '<blockquote><p>quoted</p></blockquote>',
+      ].join('\n'),
+    );
+  });
+
+  // Make sure links can be followed, except when they could run scripts.
+  test('render links', () => {
+    expect(renderMarkdown('[docs](/docs/?a=1&b=2) and `code`')).toBe(
+      '<p><a href="/docs/?a=1&amp;b=2" target="_blank" rel="noopener noreferrer">docs</a> and <code>code</code></p>',
+    );
+    expect(renderMarkdown('[click](javascript:alert(1))')).toBe(
+      '<p>[click](javascript:alert(1))</p>',
+    );
+  });
+
+  // Make sure HTML in the text is shown as text.
+  test('escape html', () => {
+    expect(renderMarkdown('<img src=x onerror="alert(1)"> *hi*')).toBe(
+      '<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <em>hi</em></p>',
+    );
+  });
+
+  // Make sure deeply nested quotes are rendered as text beyond a limit,
+  // instead of running out of stack.
+  test('limit nested quotes', () => {
+    const html = renderMarkdown(`${'>'.repeat(5000)} hi`);
+    expect(html.match(/<blockquote>/g)).toHaveLength(32);
+    expect(html).toContain('<p>&gt;&gt;&gt;');
+  });
+});
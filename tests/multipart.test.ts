@@ -0,0 +1,109 @@
+// tests/multipart.test.ts
+// Tests for the streaming multipart parser.
+
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { describe, test, expect } from 'vitest';
+
+import {
+  createMultipartParser,
+  getBoundary,
+} from '../source/handler/multipart.js';
+import type { PartInfo, PartSink } from '../source/handler/multipart.js';
+
+// The boundary used for all the bodies in this file.
+const boundary = '----serve-box-test';
+// A body with a text field and two files, one of them containing something
+// that looks like (but is not) a boundary.
+const body = [
+  `--${boundary}`,
+  'Content-Disposition: form-data; name="note"',
+  '',
+  'hello',
+  `--${boundary}`,
+  'Content-Disposition: form-data; name="file"; filename="a.txt"',
+  'Content-Type: text/plain',
+  '',
+  `first line\r\n--${boundary.slice(0, -1)}`,
+  `--${boundary}`,
+  'Content-Disposition: form-data; name="file"; filename="b.bin"',
+  '',
+  '\u0000\u0001\u0002',
+  `--${boundary}--`,
+  '',
+].join('\r\n');
+
+// Parses the body, splitting it into chunks of the given size, and returns
+// the parts it found along with their contents.
+const parse = async (input: string, chunkSize: number) => {
+  const parts: (PartInfo & { content: string })[] = [];
+  const parser = createMultipartParser(boundary, (info): PartSink => {
+    const chunks: Buffer[] = [];
+
+    return {
+      write: (chunk) => void chunks.push(Buffer.from(chunk)),
+      end: () =>
+        void parts.push({ ...info, content: Buffer.concat(chunks).toString() }),
+      abort: () => undefined,
+    };
+  });
+
+  const buffer = Buffer.from(input);
+  const chunks: Buffer[] = [];
+  for (let index = 0; index < buffer.length; index += chunkSize)
+    chunks.push(buffer.subarray(index, index + chunkSize));
+
+  await pipeline(Readable.from(chunks), parser);
+  return parts;
+};
+
+describe('handler/multipart', () => {
+  // Make sure the boundary is read from the `Content-Type` header, whether it
+  // is quoted or not.
+  test('extract boundary from content type', () => {
+    expect(getBoundary(`multipart/form-data; boundary=${boundary}`)).toBe(
+      boundary,
+    );
+    expect(getBoundary(`multipart/form-data; boundary="${boundary}"`)).toBe(
+      boundary,
+    );
+    expect(getBoundary('application/json')).toBeNull();
+  });
+
+  // Make sure all parts are parsed correctly, no matter where the chunks of
+  // the body are split.
+  test.each([1, 7, 64, 4096])(
+    'parse body split into chunks of %i bytes',
+    async (chunkSize) => {
+      const parts = await parse(body, chunkSize);
+
+      expect(parts).toEqual([
+        {
+          name: 'note',
+          filename: undefined,
+          contentType: undefined,
+          content: 'hello',
+        },
+        {
+          name: 'file',
+          filename: 'a.txt',
+          contentType: 'text/plain',
+          content: `first line\r\n--${boundary.slice(0, -1)}`,
+        },
+        {
+          name: 'file',
+          filename: 'b.bin',
+          contentType: undefined,
+          content: '\u0000\u0001\u0002',
+        },
+      ]);
+    },
+  );
+
+  // Make sure a body that ends before the closing boundary is rejected.
+  test('reject truncated body', async () => {
+    await expect(parse(body.slice(0, body.length - 20), 64)).rejects.toThrow(
+      /unexpected end/i,
+    );
+  });
+});
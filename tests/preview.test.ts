@@ -0,0 +1,110 @@
+// tests/preview.test.ts
+// Tests for the preview pages of files.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { startServer } from '../source/utilities/server.js';
+import { getPreviewKind } from '../source/handler/preview.js';
+import { highlightCode } from '../source/handler/highlight.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, and the address of the server.
+let directory: string;
+let address: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-preview-'));
+  await mkdir(path.join(directory, 'docs'));
+  await writeFile(
+    path.join(directory, 'docs', 'guide.md'),
+    '# Guide\n\n<script>alert(1)</script>\n',
+  );
+  await writeFile(path.join(directory, 'docs', 'app.ts'), 'const a = 1;\n');
+  await writeFile(path.join(directory, 'docs', 'a.png'), 'png');
+  await writeFile(path.join(directory, 'docs', 'b.png'), 'png');
+  await writeFile(path.join(directory, 'docs', 'secret.png'), 'png');
+  await writeFile(path.join(directory, 'docs', 'c.png'), 'png');
+  await writeFile(
+    path.join(directory, 'docs', 'deep.md'),
+    `${'>'.repeat(5000)} hi`,
+  );
+
+  const server = await startServer(
+    { port: 3018 },
+    { public: directory, unlisted: ['secret.png'] },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('handler/preview', () => {
+  // Make sure files are previewed by their type.
+  test('choose how files are previewed', () => {
+    expect(getPreviewKind('README.md')).toBe('markdown');
+    expect(getPreviewKind('index.ts')).toBe('code');
+    expect(getPreviewKind('notes.txt')).toBe('code');
+    expect(getPreviewKind('photo.JPG')).toBe('image');
+    expect(getPreviewKind('song.mp3')).toBe('audio');
+    expect(getPreviewKind('clip.mp4')).toBe('video');
+    expect(getPreviewKind('archive.zip')).toBeNull();
+  });
+
+  // Make sure code is escaped and split into highlighted lines.
+  test('highlight code', () => {
+    expect(highlightCode('/* a\n<b> */\nreturn "x";\n', 'index.js')).toEqual([
+      '<span class="comment">/* a</span>',
+      '<span class="comment">&lt;b&gt; */</span>',
+      '<span class="keyword">return</span> <span class="string">&quot;x&quot;</span>;',
+    ]);
+    expect(highlightCode('return <b>', 'notes.txt')).toEqual([
+      'return &lt;b&gt;',
+    ]);
+  });
+
+  // Make sure Markdown is rendered, without the HTML in it.
+  test('preview Markdown', async () => {
+    const response = await fetch(`${address}/docs/guide.md?preview`);
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(response.body).toContain('<h1>Guide</h1>');
+    expect(response.body).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(response.body).toContain('<a href="guide.md">Raw</a>');
+
+    const raw = await fetch(`${address}/docs/guide.md`);
+    expect(raw.body).toBe('# Guide\n\n<script>alert(1)</script>\n');
+  });
+
+  // Make sure deeply nested quotes do not stop the server.
+  test('preview deeply nested Markdown', async () => {
+    const response = await fetch(`${address}/docs/deep.md?preview`);
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toContain('<blockquote>');
+  });
+
+  // Make sure source code is shown with line numbers.
+  test('preview source code', async () => {
+    const response = await fetch(`${address}/docs/app.ts?preview`);
+    expect(response.body).toContain(
+      '<span class="line" id="L1" data-line="1"><span class="keyword">const</span> a = <span class="number">1</span>;</span>',
+    );
+  });
+
+  // Make sure images link to the ones next to them, skipping unlisted ones.
+  test('preview images', async () => {
+    const response = await fetch(`${address}/docs/b.png?preview`);
+    expect(response.body).toContain('<img src="b.png" alt="b.png">');
+    expect(response.body).toContain('href="a.png?preview"');
+    expect(response.body).toContain('href="c.png?preview"');
+    expect(response.body).not.toContain('secret.png');
+  });
+});
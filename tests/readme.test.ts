@@ -0,0 +1,101 @@
+// tests/readme.test.ts
+// Tests for showing README files below listings.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { startServer } from '../source/utilities/server.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, and the addresses of the servers,
+// the second of which does not show README files.
+let directory: string;
+let address: string;
+let disabledAddress: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-readme-'));
+  await mkdir(path.join(directory, 'text'));
+  await mkdir(path.join(directory, 'page'));
+  await mkdir(path.join(directory, 'hidden'));
+  await writeFile(
+    path.join(directory, 'README.md'),
+    '# Shared files\n\n<img src=x onerror=alert(1)>\n',
+  );
+  await writeFile(path.join(directory, 'readme.txt'), 'Not preferred');
+  await writeFile(
+    path.join(directory, 'text', 'readme.txt'),
+    'Use <b>tabs</b>',
+  );
+  await writeFile(
+    path.join(directory, 'page', 'README.html'),
+    '<p title="a">Fish &amp; chips</p><script>alert(1)</script>',
+  );
+  await writeFile(path.join(directory, 'hidden', 'readme.html'), 'Hidden');
+  await mkdir(path.join(directory, 'deep'));
+  await writeFile(
+    path.join(directory, 'deep', 'README.md'),
+    `${'>'.repeat(5000)} hi`,
+  );
+
+  const server = await startServer(
+    { port: 3019 },
+    { public: directory, unlisted: ['readme.html'] },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+
+  const disabled = await startServer(
+    { port: 3020 },
+    { public: directory, readme: false },
+    { '--no-request-logging': true },
+  );
+  disabledAddress = disabled.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('handler/readme', () => {
+  // Make sure Markdown is rendered below the listing, without its HTML.
+  test('show the README file of a folder', async () => {
+    const response = await fetch(address, { headers: { accept: 'text/html' } });
+    expect(response.body).toContain('<h2>📄 README.md</h2>');
+    expect(response.body).toContain('<h1>Shared files</h1>');
+    expect(response.body).not.toContain('<img src=x');
+    expect(response.body).not.toContain('Not preferred');
+  });
+
+  // Make sure text is escaped, and HTML is shown in a sandboxed frame.
+  test('show text and HTML files', async () => {
+    const text = await fetch(`${address}/text/`);
+    expect(text.body).toContain('Use &#60;b&#62;tabs&#60;&#47;b&#62;');
+
+    const page = await fetch(`${address}/page/`);
+    expect(page.body).toContain(
+      '<iframe class="readme-frame" sandbox srcdoc="<p title=&quot;a&quot;>Fish &amp;amp; chips',
+    );
+  });
+
+  // Make sure deeply nested quotes do not stop the server.
+  test('show deeply nested Markdown', async () => {
+    const response = await fetch(`${address}/deep/`);
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toContain('<blockquote>');
+  });
+
+  // Make sure unlisted files are not shown, and the feature can be disabled.
+  test('skip hidden README files', async () => {
+    const hidden = await fetch(`${address}/hidden/`);
+    expect(hidden.body).not.toContain('id="readme"');
+
+    const disabled = await fetch(disabledAddress);
+    expect(disabled.body).not.toContain('id="readme"');
+  });
+});
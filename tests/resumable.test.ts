@@ -0,0 +1,199 @@
+// tests/resumable.test.ts
+// Tests for resumable uploads through the tus protocol.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  readdir,
+  rm,
+  symlink,
+  writeFile,
+} from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { resumablePath } from '../source/handler/resumable.js';
+import { stagingDirectory } from '../source/handler/state.js';
+import { startServer } from '../source/utilities/server.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, and the address of the server.
+let directory: string;
+let address: string;
+
+// Creates an upload of a file with the given name and length, and returns
+// the address to send its data to.
+const createUpload = async (filename: string, length: number) => {
+  const response = await fetch.post(`${address}${resumablePath}?path=/`, {
+    headers: {
+      'tus-resumable': '1.0.0',
+      'upload-length': String(length),
+      'upload-metadata': `filename ${Buffer.from(filename).toString('base64')}`,
+    },
+  });
+  expect(response.statusCode).toBe(201);
+
+  return `${address}${response.headers.location!}`;
+};
+
+// Sends a piece of the data of an upload, starting at the given offset.
+const sendData = (location: string, offset: number, data: string) =>
+  fetch.patch(location, {
+    headers: {
+      'tus-resumable': '1.0.0',
+      'content-type': 'application/offset+octet-stream',
+      'upload-offset': String(offset),
+    },
+    body: data,
+  });
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-resumable-'));
+
+  const server = await startServer(
+    { port: 3023 },
+    { public: directory, uploads: { maxFileSize: 100 } },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('handler/resumable', () => {
+  // Make sure clients can find out what the server supports.
+  test('describe the protocol', async () => {
+    const response = await fetch(`${address}${resumablePath}`, {
+      method: 'OPTIONS',
+    });
+    expect(response.statusCode).toBe(204);
+    expect(response.headers).toMatchObject({
+      'tus-resumable': '1.0.0',
+      'tus-version': '1.0.0',
+      'tus-extension': 'creation,termination',
+      'tus-max-size': '100',
+    });
+  });
+
+  // Make sure a file is stored once all of its pieces were received, and the
+  // offset to resume from can be looked up in between.
+  test('upload a file in pieces', async () => {
+    const location = await createUpload('notes.txt', 11);
+
+    const first = await sendData(location, 0, 'hello');
+    expect(first.statusCode).toBe(204);
+    expect(first.headers['upload-offset']).toBe('5');
+
+    const head = await fetch.head(location);
+    expect(head.headers).toMatchObject({
+      'upload-offset': '5',
+      'upload-length': '11',
+    });
+
+    const stale = await sendData(location, 0, 'hello');
+    expect(stale.statusCode).toBe(409);
+    expect(stale.headers['upload-offset']).toBe('5');
+
+    const last = await sendData(location, 5, ' world');
+    expect(last.statusCode).toBe(204);
+    expect(last.headers).toMatchObject({
+      'upload-offset': '11',
+      'upload-action': 'created',
+      'upload-filename': 'notes.txt',
+    });
+    expect(await readFile(path.join(directory, 'notes.txt'), 'utf8')).toBe(
+      'hello world',
+    );
+
+    expect((await fetch.head(location)).statusCode).toBe(404);
+  });
+
+  // Make sure files that are too large or have invalid names are refused
+  // before any data is sent.
+  test('refuse invalid uploads', async () => {
+    const large = await fetch.post(`${address}${resumablePath}?path=/`, {
+      headers: { 'upload-length': '101' },
+    });
+    expect(large.statusCode).toBe(413);
+
+    const unnamed = await fetch.post(`${address}${resumablePath}?path=/`, {
+      headers: { 'upload-length': '1' },
+    });
+    expect(unnamed.statusCode).toBe(400);
+  });
+
+  // Make sure taken names are refused when the upload is created, and when a
+  // file with the same name appears before the upload is completed.
+  test('refuse taken names', async () => {
+    await writeFile(path.join(directory, 'taken.txt'), 'taken');
+    const taken = await fetch.post(`${address}${resumablePath}?path=/`, {
+      headers: {
+        'upload-length': '5',
+        'upload-metadata': `filename ${Buffer.from('taken.txt').toString(
+          'base64',
+        )}`,
+      },
+    });
+    expect(taken.statusCode).toBe(409);
+
+    const location = await createUpload('late.txt', 5);
+    await writeFile(path.join(directory, 'late.txt'), 'first');
+    const last = await sendData(location, 0, 'later');
+    expect(last.statusCode).toBe(409);
+    expect(await readFile(path.join(directory, 'late.txt'), 'utf8')).toBe(
+      'first',
+    );
+  });
+
+  // Make sure a cancelled upload is removed, and one whose data is gone is
+  // reported as missing instead of failing.
+  test('cancel uploads', async () => {
+    const cancelled = await createUpload('cancelled.txt', 10);
+    expect((await fetch.delete(cancelled)).statusCode).toBe(204);
+    expect((await fetch.head(cancelled)).statusCode).toBe(404);
+
+    const missing = await createUpload('missing.txt', 10);
+    const id = path.posix.basename(missing);
+    await rm(path.join(directory, stagingDirectory, `${id}.upload`));
+    expect((await fetch.head(missing)).statusCode).toBe(404);
+    expect((await sendData(missing, 0, 'data')).statusCode).toBe(404);
+  });
+
+  // Make sure an upload is not stored outside the served directory when its
+  // folder is replaced by a link before the upload is completed.
+  test('refuse uploads into linked folders', async () => {
+    const outside = await mkdtemp(path.join(tmpdir(), 'serve-box-outside-'));
+    await mkdir(path.join(directory, 'inner'));
+
+    const created = await fetch.post(`${address}${resumablePath}?path=/inner`, {
+      headers: {
+        'tus-resumable': '1.0.0',
+        'upload-length': '5',
+        'upload-metadata': `filename ${Buffer.from('escaped.txt').toString(
+          'base64',
+        )}`,
+      },
+    });
+    expect(created.statusCode).toBe(201);
+
+    await rm(path.join(directory, 'inner'), { recursive: true });
+    await symlink(outside, path.join(directory, 'inner'));
+
+    const last = await sendData(
+      `${address}${created.headers.location!}`,
+      0,
+      'hello',
+    );
+    expect(last.statusCode).toBe(400);
+    expect(await readdir(outside)).toEqual([]);
+
+    await rm(outside, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,80 @@
+// tests/search.test.ts
+// Tests for searching for files by name.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { mkdtemp, mkdir, rm, symlink, writeFile } from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { startServer } from '../source/utilities/server.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, and the address of the server.
+let directory: string;
+let address: string;
+
+interface SearchResult {
+  results: { name: string; path: string; type: string }[];
+  truncated: boolean;
+}
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-search-'));
+  await mkdir(path.join(directory, 'docs', 'notes'), { recursive: true });
+  await mkdir(path.join(directory, '.git'));
+  await writeFile(path.join(directory, 'docs', 'notes', 'Report.md'), '#');
+  await writeFile(path.join(directory, 'docs', 'report-draft.txt'), 'draft');
+  await writeFile(path.join(directory, 'report-secret.txt'), 'hidden');
+  await writeFile(path.join(directory, '.git', 'report'), 'ref');
+  await symlink(
+    path.join(directory, 'docs'),
+    path.join(directory, 'report-link'),
+  );
+
+  const server = await startServer(
+    { port: 3015 },
+    { public: directory, unlisted: ['report-secret.txt'] },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('handler/search', () => {
+  // Make sure files are found in every folder, except the hidden ones.
+  test('find files by name', async () => {
+    const response = await fetch(`${address}/__search?q=report`);
+    expect(response.statusCode).toBe(200);
+
+    const { results, truncated } = JSON.parse(response.body) as SearchResult;
+    expect(results.map((result) => result.path)).toEqual([
+      '/docs/report-draft.txt',
+      '/docs/notes/Report.md',
+    ]);
+    expect(truncated).toBe(false);
+  });
+
+  // Make sure searches can start in a folder and use globs.
+  test('search within a folder', async () => {
+    const response = await fetch(`${address}/__search?q=*.md&path=/docs/`);
+    const { results } = JSON.parse(response.body) as SearchResult;
+    expect(results).toMatchObject([
+      { name: 'Report.md', type: 'file', path: '/docs/notes/Report.md' },
+    ]);
+
+    const outside = await fetch(`${address}/__search?q=a&path=/../`);
+    expect(outside.statusCode).toBe(404);
+  });
+
+  // Make sure searches without a query are refused.
+  test('refuse empty queries', async () => {
+    const response = await fetch(`${address}/__search?q=%20`);
+    expect(response.statusCode).toBe(400);
+  });
+});
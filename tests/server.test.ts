@@ -1,6 +1,9 @@
 // tests/server.test.ts
 // Tests for the server creating function.
 
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
 import { afterEach, describe, test, expect, vi } from 'vitest';
 import { extend as createFetch } from 'got';
 
@@ -97,4 +100,69 @@ describe('utilities/server', () => {
 
     expect(consoleSpy).not.toHaveBeenCalled();
   });
+
+  // Make sure nothing can be changed when the server is read-only.
+  test('refuse writes when read-only', async () => {
+    const address = await startServer(
+      { port: 3005 },
+      { ...config, readOnly: true },
+      {},
+    );
+
+    const upload = await fetch.post(`${address.local!}/__upload`);
+    expect(upload.statusCode).toBe(403);
+
+    const board = await fetch.post(`${address.local!}/__board`, {
+      json: { content: 'hello' },
+    });
+    expect(board.statusCode).toBe(403);
+
+    const remove = await fetch.post(`${address.local!}/__delete`, {
+      json: { path: '/index.html' },
+    });
+    expect(remove.statusCode).toBe(403);
+
+    const put = await fetch.put(`${address.local!}/new.txt`, { body: 'new' });
+    expect(put.statusCode).toBe(403);
+
+    const patch = await fetch.patch(address.local!);
+    expect(patch.statusCode).toBe(405);
+
+    const read = await fetch(address.local!);
+    expect(read.statusCode).toBe(200);
+  });
+
+  // Make sure directories are listed as JSON in the format scripts already
+  // read, unless they ask for the versioned one.
+  test('list directories as json', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'serve-box-json-'));
+    await writeFile(path.join(directory, 'notes.txt'), 'hello');
+
+    const address = await startServer(
+      { port: 3026 },
+      { public: directory },
+      { '--no-request-logging': true },
+    );
+    const headers = { accept: 'application/json' };
+
+    const listing = await fetch(address.local!, { headers });
+    expect(JSON.parse(listing.body)).toMatchObject({
+      files: [{ base: 'notes.txt', relative: '/notes.txt', size: '5 B' }],
+      directory: expect.any(String),
+      paths: expect.any(Array),
+    });
+
+    const versioned = await fetch(`${address.local!}/?version=1`, {
+      headers,
+    });
+    expect(JSON.parse(versioned.body)).toMatchObject({
+      version: 1,
+      path: '/',
+      entries: [{ name: 'notes.txt', size: 5 }],
+      total: 1,
+      nextCursor: null,
+    });
+
+    await rm(directory, { recursive: true, force: true });
+  });
 });
@@ -0,0 +1,99 @@
+// tests/thumbnails.test.ts
+// Tests for making thumbnails of images.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+import jpeg from 'jpeg-js';
+import pngjs from 'pngjs';
+
+import { startServer } from '../source/utilities/server.js';
+import { thumbnailsDirectory } from '../source/handler/state.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, and the address of the server.
+let directory: string;
+let address: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-thumbnails-'));
+
+  // A red image, twice as wide as it is high, with a transparent right half.
+  const image = new pngjs.PNG({ width: 800, height: 400 });
+  for (let index = 0; index < image.data.length; index += 4) {
+    const x = (index / 4) % image.width;
+    image.data.set([255, 0, 0, x < 400 ? 255 : 0], index);
+  }
+  await writeFile(
+    path.join(directory, 'photo.png'),
+    pngjs.PNG.sync.write(image),
+  );
+  await writeFile(path.join(directory, 'broken.jpg'), 'not an image');
+  await writeFile(path.join(directory, 'notes.txt'), 'text');
+
+  const server = await startServer(
+    { port: 3017 },
+    { public: directory },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('handler/thumbnails', () => {
+  // Make sure images are scaled down, and the thumbnails are cached.
+  test('make a thumbnail of an image', async () => {
+    const response = await fetch(`${address}/__thumbnail?path=/photo.png`, {
+      responseType: 'buffer',
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('image/jpeg');
+
+    const thumbnail = jpeg.decode(response.body);
+    expect([thumbnail.width, thumbnail.height]).toEqual([256, 128]);
+    // Transparent parts are shown on white.
+    const pixel = (x: number): number[] => [
+      ...thumbnail.data.subarray(x * 4, x * 4 + 3),
+    ];
+    expect(pixel(10)[0]).toBeGreaterThan(240);
+    expect(pixel(10)[1]).toBeLessThan(15);
+    expect(pixel(240)[1]).toBeGreaterThan(240);
+
+    const cached = await readdir(path.join(directory, thumbnailsDirectory));
+    expect(cached).toHaveLength(1);
+
+    const etag = response.headers.etag ?? '';
+    const unchanged = await fetch(`${address}/__thumbnail?path=/photo.png`, {
+      headers: { 'if-none-match': etag },
+    });
+    expect(unchanged.statusCode).toBe(304);
+  });
+
+  // Make sure files that are not images are refused.
+  test('refuse files that are not images', async () => {
+    const text = await fetch(`${address}/__thumbnail?path=/notes.txt`);
+    expect(text.statusCode).toBe(415);
+
+    const broken = await fetch(`${address}/__thumbnail?path=/broken.jpg`);
+    expect(broken.statusCode).toBe(422);
+
+    const missing = await fetch(`${address}/__thumbnail?path=/missing.png`);
+    expect(missing.statusCode).toBe(404);
+  });
+
+  // Make sure images in the listing link to their thumbnails.
+  test('show thumbnails in the listing', async () => {
+    const response = await fetch(address, { headers: { accept: 'text/html' } });
+    expect(response.body).toContain(
+      '<img class="thumbnail" src="/__thumbnail?path=%2Fphoto.png"',
+    );
+    expect(response.body).not.toContain('path=%2Fnotes.txt"');
+  });
+});
@@ -0,0 +1,305 @@
+// tests/upload.test.ts
+// Tests for uploading files, and the restrictions that apply to uploads.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  readdir,
+  rm,
+  symlink,
+  writeFile,
+} from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { isAllowedFile, toBytes } from '../source/handler/upload.js';
+import {
+  stagingDirectory,
+  versionsDirectory,
+} from '../source/handler/state.js';
+import { startServer } from '../source/utilities/server.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, a directory outside of it that a
+// symlink leads to, and the addresses of the servers, the second of which
+// keeps versions of replaced files.
+let directory: string;
+let outside: string;
+let address: string;
+let versionsAddress: string;
+
+// Creates the body of a `multipart/form-data` request with the given files.
+const boundary = 'serve-box-test';
+const createForm = (files: Record<string, string>): string =>
+  [
+    ...Object.entries(files).map(
+      ([name, content]) =>
+        `--${boundary}\r\nContent-Disposition: form-data; name="files"; filename="${name}"\r\n\r\n${content}\r\n`,
+    ),
+    `--${boundary}--\r\n`,
+  ].join('');
+
+// Uploads the given files to a directory of the server.
+const upload = (
+  files: Record<string, string>,
+  directoryPath = '/',
+  serverAddress = address,
+) =>
+  fetch.post(
+    `${serverAddress}/__upload?path=${encodeURIComponent(directoryPath)}`,
+    {
+      headers: {
+        'content-type': `multipart/form-data; boundary=${boundary}`,
+      },
+      body: createForm(files),
+    },
+  );
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-upload-'));
+  outside = await mkdtemp(path.join(tmpdir(), 'serve-box-outside-'));
+  await mkdir(path.join(directory, 'photos'));
+  await writeFile(path.join(directory, 'notes.txt'), 'notes');
+  await symlink(outside, path.join(directory, 'link'));
+
+  const server = await startServer(
+    { port: 3021 },
+    { public: directory, uploads: { maxFileSize: 10 } },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+
+  const versions = await startServer(
+    { port: 3022 },
+    { public: directory, uploads: { onConflict: 'version' } },
+    { '--no-request-logging': true },
+  );
+  versionsAddress = versions.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+  await rm(outside, { recursive: true, force: true });
+});
+
+describe('handler/upload', () => {
+  // Make sure sizes from the configuration are converted to bytes.
+  test('convert sizes to bytes', () => {
+    expect(toBytes(1024)).toBe(1024);
+    expect(toBytes('2 KB')).toBe(2048);
+    expect(toBytes(0)).toBeNull();
+    expect(toBytes()).toBeNull();
+  });
+
+  // Make sure every file is accepted when there are no globs.
+  test('allow any file by default', () => {
+    expect(isAllowedFile('notes.txt', {})).toBe(true);
+    expect(isAllowedFile('photos/cat.jpg', {})).toBe(true);
+  });
+
+  // Make sure a glob matches the name of a file in a sub-folder as well as its
+  // full path.
+  test('match globs against the path and the name', () => {
+    const config = { allow: ['*.jpg', 'docs/**'] };
+
+    expect(isAllowedFile('cat.jpg', config)).toBe(true);
+    expect(isAllowedFile('photos/cat.jpg', config)).toBe(true);
+    expect(isAllowedFile('docs/notes/today.txt', config)).toBe(true);
+    expect(isAllowedFile('notes.txt', config)).toBe(false);
+  });
+
+  // Make sure a denied file is refused, even when it is also allowed.
+  test('give precedence to deny globs', () => {
+    const config = { allow: ['docs/**'], deny: ['*.exe'] };
+
+    expect(isAllowedFile('docs/setup.exe', config)).toBe(false);
+    expect(isAllowedFile('setup.exe', { deny: ['*.exe'] })).toBe(false);
+    expect(isAllowedFile('docs/readme.md', config)).toBe(true);
+  });
+
+  // Make sure nothing is left in the staging directory when a file is
+  // refused midway.
+  test('clean up refused uploads', async () => {
+    const first = await upload({ 'large.txt': 'x'.repeat(100) });
+    expect(first.statusCode).toBe(413);
+    const second = await upload({ 'larger.txt': 'x'.repeat(1000) });
+    expect(second.statusCode).toBe(413);
+
+    expect(await readdir(path.join(directory, stagingDirectory))).toEqual([]);
+  });
+
+  // Make sure several files are stored at once, recreating the folders they
+  // were uploaded from.
+  test('upload files and folders', async () => {
+    const response = await upload({
+      'one.txt': '1',
+      'album/two.txt': '2',
+      'album/more/three.txt': '3',
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({
+      success: true,
+      files: [
+        { filename: 'one.txt', success: true, action: 'created' },
+        { filename: 'album/two.txt', success: true, action: 'created' },
+        { filename: 'album/more/three.txt', success: true, action: 'created' },
+      ],
+    });
+    expect(
+      await readFile(
+        path.join(directory, 'album', 'more', 'three.txt'),
+        'utf8',
+      ),
+    ).toBe('3');
+  });
+
+  // Make sure a file that cannot be stored is reported on its own, without
+  // failing the other files of the same upload.
+  test('report the result of every file', async () => {
+    const response = await upload({ 'fresh.txt': 'fresh', 'notes.txt': 'new' });
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toMatchObject({
+      success: false,
+      error: 'File "notes.txt" already exists',
+      files: [
+        { filename: 'fresh.txt', success: true, action: 'created' },
+        { filename: 'notes.txt', success: false },
+      ],
+    });
+    expect(await readFile(path.join(directory, 'fresh.txt'), 'utf8')).toBe(
+      'fresh',
+    );
+  });
+
+  // Make sure files and the folders they were uploaded from are stored in the
+  // directory they are uploaded to, which has to be an existing directory
+  // within the served one.
+  test('upload to a directory', async () => {
+    const response = await upload({ 'cat.jpg': 'cat' }, '/photos/');
+    expect(response.statusCode).toBe(200);
+    expect(
+      await readFile(path.join(directory, 'photos', 'cat.jpg'), 'utf8'),
+    ).toBe('cat');
+
+    const folder = await upload({ 'trip/beach.jpg': 'sand' }, '/photos/');
+    expect(JSON.parse(folder.body)).toMatchObject({
+      files: [{ filename: 'trip/beach.jpg', action: 'created' }],
+    });
+    expect(
+      await readFile(
+        path.join(directory, 'photos', 'trip', 'beach.jpg'),
+        'utf8',
+      ),
+    ).toBe('sand');
+
+    expect((await upload({ 'a.txt': 'a' }, '/../')).statusCode).toBe(400);
+    expect((await upload({ 'a.txt': 'a' }, '/notes.txt')).statusCode).toBe(400);
+    expect((await upload({ 'a.txt': 'a' }, '/missing/')).statusCode).toBe(404);
+  });
+
+  // Make sure a symlink cannot be used to store files outside of the served
+  // directory.
+  test('refuse to upload through symlinks', async () => {
+    expect((await upload({ 'a.txt': 'a' }, '/link/')).statusCode).toBe(400);
+    expect((await upload({ 'a.txt': 'a' }, '/link')).statusCode).toBe(400);
+
+    const response = await upload({ 'link/a.txt': 'a' });
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toMatchObject({
+      error: 'Invalid file name',
+    });
+
+    expect(await readdir(outside)).toEqual([]);
+  });
+
+  // Make sure a file can be uploaded as the body of a `PUT` request, but not
+  // to the paths of the endpoints of the listing.
+  test('upload with put', async () => {
+    const response = await fetch.put(`${address}/photos/dog.jpg`, {
+      body: 'dog',
+    });
+    expect(response.statusCode).toBe(201);
+    expect(response.headers.location).toBe('/photos/dog.jpg');
+    expect(
+      await readFile(path.join(directory, 'photos', 'dog.jpg'), 'utf8'),
+    ).toBe('dog');
+
+    const board = await fetch.put(`${address}/__board`, { body: 'board' });
+    expect(board.statusCode).toBe(403);
+    const encoded = await fetch.put(`${address}/%5F%5Fboard`, {
+      body: 'board',
+    });
+    expect(encoded.statusCode).toBe(403);
+    expect(await readdir(directory)).not.toContain('__board');
+  });
+
+  // Make sure taken names are refused by default, and replaced files are kept
+  // when versions are enabled.
+  test('resolve conflicts', async () => {
+    const rejected = await upload({ 'notes.txt': 'new' });
+    expect(rejected.statusCode).toBe(409);
+    expect(await readFile(path.join(directory, 'notes.txt'), 'utf8')).toBe(
+      'notes',
+    );
+
+    const versioned = await upload(
+      { 'notes.txt': 'new' },
+      '/',
+      versionsAddress,
+    );
+    expect(versioned.statusCode).toBe(200);
+    expect(JSON.parse(versioned.body)).toMatchObject({
+      files: [{ filename: 'notes.txt', action: 'versioned' }],
+    });
+    expect(await readFile(path.join(directory, 'notes.txt'), 'utf8')).toBe(
+      'new',
+    );
+
+    const [version] = await readdir(path.join(directory, versionsDirectory));
+    expect(version).toMatch(/^notes\..+\.txt$/);
+    expect(
+      await readFile(path.join(directory, versionsDirectory, version!), 'utf8'),
+    ).toBe('notes');
+  });
+
+  // Make sure uploads are stored under a free name, or replace the existing
+  // file, depending on the policy.
+  test('rename or overwrite taken names', async () => {
+    await writeFile(path.join(directory, 'todo.txt'), 'old');
+
+    const renaming = await startServer(
+      { port: 3027 },
+      { public: directory, uploads: { onConflict: 'rename' } },
+      { '--no-request-logging': true },
+    );
+    const renamed = await upload({ 'todo.txt': 'new' }, '/', renaming.local!);
+    expect(JSON.parse(renamed.body)).toMatchObject({
+      files: [{ filename: 'todo (1).txt', action: 'renamed' }],
+    });
+    expect(await readFile(path.join(directory, 'todo (1).txt'), 'utf8')).toBe(
+      'new',
+    );
+
+    const overwriting = await startServer(
+      { port: 3028 },
+      { public: directory, uploads: { onConflict: 'overwrite' } },
+      { '--no-request-logging': true },
+    );
+    const overwritten = await upload(
+      { 'todo.txt': 'newer' },
+      '/',
+      overwriting.local!,
+    );
+    expect(JSON.parse(overwritten.body)).toMatchObject({
+      files: [{ filename: 'todo.txt', action: 'overwritten' }],
+    });
+    expect(await readFile(path.join(directory, 'todo.txt'), 'utf8')).toBe(
+      'newer',
+    );
+  });
+});
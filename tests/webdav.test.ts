@@ -0,0 +1,157 @@
+// tests/webdav.test.ts
+// Tests for the WebDAV layer of the handler.
+
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  mkdtemp,
+  mkdir,
+  readFile,
+  readdir,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extend as createFetch } from 'got';
+
+import { resumablePath } from '../source/handler/resumable.js';
+import { startServer } from '../source/utilities/server.js';
+
+// A `fetch` instance to make requests to the server.
+const fetch = createFetch({ throwHttpErrors: false, retry: { limit: 0 } });
+
+// The directory served in these tests, and the address of the server.
+let directory: string;
+let address: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'serve-box-webdav-'));
+  await mkdir(path.join(directory, 'docs'));
+  await writeFile(path.join(directory, 'docs', 'notes.txt'), 'hello');
+  await writeFile(path.join(directory, 'secret.txt'), 'hidden');
+  await mkdir(path.join(directory, 'private'));
+
+  const server = await startServer(
+    { port: 3011 },
+    {
+      public: directory,
+      webdav: true,
+      unlisted: ['secret.txt'],
+      uploads: { deny: ['private/**'] },
+    },
+    { '--no-request-logging': true },
+  );
+  address = server.local!;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('handler/webdav', () => {
+  // Make sure a directory and its children are listed, without the unlisted
+  // files.
+  test('list directory with propfind', async () => {
+    const response = await fetch(address, {
+      method: 'PROPFIND',
+      headers: { depth: '1' },
+    });
+
+    expect(response.statusCode).toBe(207);
+    expect(response.body).toContain('<D:href>/docs/</D:href>');
+    expect(response.body).not.toContain('secret.txt');
+  });
+
+  // Make sure files can be created, copied, moved and deleted.
+  test('manage files', async () => {
+    const put = await fetch.put(`${address}/docs/new.txt`, { body: 'new' });
+    expect(put.statusCode).toBe(201);
+
+    // Files are replaced, even though uploads are refused on conflicts.
+    const replace = await fetch.put(`${address}/docs/new.txt`, {
+      body: 'newer',
+    });
+    expect(replace.statusCode).toBe(204);
+    expect(
+      await readFile(path.join(directory, 'docs', 'new.txt'), 'utf8'),
+    ).toBe('newer');
+
+    const copy = await fetch(`${address}/docs/new.txt`, {
+      method: 'COPY',
+      headers: { destination: '/docs/copy.txt' },
+    });
+    expect(copy.statusCode).toBe(201);
+
+    const move = await fetch(`${address}/docs/copy.txt`, {
+      method: 'MOVE',
+      headers: { destination: '/moved.txt' },
+    });
+    expect(move.statusCode).toBe(201);
+    expect(await readFile(path.join(directory, 'moved.txt'), 'utf8')).toBe(
+      'newer',
+    );
+
+    const remove = await fetch.delete(`${address}/moved.txt`);
+    expect(remove.statusCode).toBe(204);
+  });
+
+  // Make sure paths outside the served directory or hidden from listings
+  // cannot be reached.
+  test('refuse hidden paths', async () => {
+    const hidden = await fetch(`${address}/secret.txt`, {
+      method: 'PROPFIND',
+      headers: { depth: '0' },
+    });
+    expect(hidden.statusCode).toBe(404);
+
+    const state = await fetch(`${address}/docs/notes.txt`, {
+      method: 'MOVE',
+      headers: { destination: '/.serve-box/notes.txt' },
+    });
+    expect(state.statusCode).toBe(403);
+  });
+
+  // Make sure files cannot be copied or moved to where they could not be
+  // uploaded, including the files in a folder.
+  test('refuse denied destinations', async () => {
+    const copy = await fetch(`${address}/docs/notes.txt`, {
+      method: 'COPY',
+      headers: { destination: '/private/notes.txt' },
+    });
+    expect(copy.statusCode).toBe(415);
+
+    const move = await fetch(`${address}/docs`, {
+      method: 'MOVE',
+      headers: { destination: '/private/docs' },
+    });
+    expect(move.statusCode).toBe(415);
+    expect(await readdir(path.join(directory, 'private'))).toEqual([]);
+  });
+
+  // Make sure the endpoints of the listing are not taken over by WebDAV,
+  // even for the methods they share.
+  test('leave the endpoints of the listing alone', async () => {
+    const options = await fetch(`${address}${resumablePath}`, {
+      method: 'OPTIONS',
+    });
+    expect(options.statusCode).toBe(204);
+    expect(options.headers['tus-version']).toBe('1.0.0');
+
+    const created = await fetch.post(`${address}${resumablePath}?path=/`, {
+      headers: {
+        'upload-length': '10',
+        'upload-metadata': `filename ${Buffer.from('big.txt').toString(
+          'base64',
+        )}`,
+      },
+    });
+    expect(created.statusCode).toBe(201);
+
+    const location = `${address}${created.headers.location!}`;
+    expect((await fetch.delete(location)).statusCode).toBe(204);
+    expect((await fetch.head(location)).statusCode).toBe(404);
+
+    const put = await fetch.put(`${address}/__board`, { body: 'board' });
+    expect(put.statusCode).toBe(403);
+  });
+});